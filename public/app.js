@@ -6,12 +6,16 @@ let filters = {
     missing: true,
     notUploaded: true,
     uploaded: true,
+    exempt: true,
+    lowCoverage: false,
     group: ''
 };
+let minCoveragePercent = 80; // From config/recordings.json, sent with /api/status
 
 // Load video metadata progressively (max 2 concurrent requests to avoid CPU overload)
 const MAX_CONCURRENT_REQUESTS = 2;
 const videoMetadataCache = new Map(); // Client-side cache
+const splitRecordingsByFirstVideo = new Map(); // First part path -> split recording shown in the table
 
 async function loadVideoMetadata(videoPaths) {
     console.log(`📹 Loading metadata for ${videoPaths.length} videos...`);
@@ -29,6 +33,10 @@ async function loadVideoMetadata(videoPaths) {
 
                 const response = await fetch(`/api/video-metadata?path=${encodeURIComponent(videoPath)}`);
                 const metadata = await response.json();
+                if (response.status === 202) {
+                    // Queued for extraction; the metadata arrives as a video-metadata event
+                    return null;
+                }
 
                 // Cache on client side
                 videoMetadataCache.set(videoPath, metadata);
@@ -78,6 +86,7 @@ async function loadData() {
 
         recordings = data.recordings;
         driveFiles = data.driveFiles || {};
+        minCoveragePercent = data.minCoveragePercent ?? minCoveragePercent;
 
         // Collect all video paths for progressive loading
         const allVideoPaths = [];
@@ -110,6 +119,11 @@ async function loadData() {
             studyGroups = {};
         }
 
+        // Fetch schedule changes, analysis jobs and OCR failures (panels only, do not affect the table)
+        loadScheduleChanges();
+        loadAnalysisJobs();
+        loadOcrFailures();
+
         // Fetch interrupted uploads
         try {
             const interruptedResponse = await fetch('/api/interrupted-uploads');
@@ -206,15 +220,29 @@ function renderRecordings() {
     const tbody = document.getElementById('recordingsBody');
     tbody.innerHTML = '';
 
+    // Lesson coverage per date and group, for the low coverage filter
+    const coverageByLesson = new Map();
+    if (filters.lowCoverage) {
+        recordings.forEach(rec => {
+            const key = `${rec.date}:${rec.studentGroup}`;
+            if (!coverageByLesson.has(key)) {
+                coverageByLesson.set(key, getLessonCoverage(recordings.filter(r => r.date === rec.date && r.studentGroup === rec.studentGroup)));
+            }
+        });
+    }
+
     // Filter recordings
     const filteredRecordings = recordings.filter(rec => {
         const isMissing = rec.folder === 'MISSING!';
+        const isExempt = isMissing && !!rec.exempt;
         const isUploaded = rec.uploaded === true;
         const isNotUploaded = !isMissing && !isUploaded;
 
-        if (isMissing && !filters.missing) return false;
+        if (isExempt && !filters.exempt) return false;
+        if (isMissing && !isExempt && !filters.missing) return false;
         if (isNotUploaded && !filters.notUploaded) return false;
         if (isUploaded && !filters.uploaded) return false;
+        if (filters.lowCoverage && !(coverageByLesson.get(`${rec.date}:${rec.studentGroup}`) || {}).isLow) return false;
         return !(filters.group && rec.studentGroup !== filters.group);
 
 
@@ -254,6 +282,93 @@ function renderRecordings() {
     });
 }
 
+// Minutes since midnight for "HH:MM" or "HH:MM:SS"
+function timeToMinutes(time) {
+    const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+    return hours * 60 + minutes + seconds / 60;
+}
+
+// "HH:MM" for minutes since midnight
+function minutesToTime(minutes) {
+    const rounded = Math.round(minutes);
+    return `${String(Math.floor(rounded / 60)).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+// Sort [start, end] intervals and merge the overlapping ones
+function mergeIntervals(intervals) {
+    const merged = [];
+    [...intervals].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            merged.push([start, end]);
+        }
+    });
+    return merged;
+}
+
+/**
+ * Compare a group's lessons on a date with the wall-clock time its videos cover
+ * Uses the wall-clock index of a video when built (silences cut by Timebolt still count as recorded, breaks do not),
+ * otherwise the times of its first and last frames. Null until the times of at least one video are known.
+ */
+function getLessonCoverage(groupRecordings) {
+    const recWithLessons = groupRecordings.find(r => r.lessons && r.lessons.length > 0);
+    const lessons = recWithLessons
+        ? mergeIntervals(recWithLessons.lessons.map(l => [timeToMinutes(l.start), timeToMinutes(l.end)]))
+        : groupRecordings.filter(r => r.lessonStart && r.lessonEnd).slice(0, 1).map(r => [timeToMinutes(r.lessonStart), timeToMinutes(r.lessonEnd)]);
+    if (lessons.length === 0) {
+        return null;
+    }
+
+    const recordedIntervals = [];
+    const videoPaths = new Set(groupRecordings.flatMap(r => r.videoPaths || []));
+    videoPaths.forEach(path => {
+        const metadata = videoMetadataCache.get(path);
+        if (!metadata) return;
+        if (metadata.wallClock && metadata.wallClock.segments.length > 0) {
+            metadata.wallClock.segments.forEach(segment => recordedIntervals.push([timeToMinutes(segment.clockStart), timeToMinutes(segment.clockEnd)]));
+            metadata.wallClock.gaps.filter(gap => gap.kind === 'cut').forEach(gap => recordedIntervals.push([timeToMinutes(gap.fromClock), timeToMinutes(gap.toClock)]));
+        } else if (metadata.recordingTime && metadata.endTimestamp) {
+            recordedIntervals.push([timeToMinutes(metadata.recordingTime.split(' ')[1]), timeToMinutes(metadata.endTimestamp)]);
+        }
+    });
+    if (recordedIntervals.length === 0) {
+        return null;
+    }
+    const recorded = mergeIntervals(recordedIntervals);
+
+    const lessonMinutes = lessons.reduce((total, [start, end]) => total + end - start, 0);
+    const coveredMinutes = lessons.reduce((total, [lessonStart, lessonEnd]) => total + recorded.reduce((sum, [start, end]) =>
+        sum + Math.max(0, Math.min(end, lessonEnd) - Math.max(start, lessonStart)), 0), 0);
+    const percent = lessonMinutes > 0 ? Math.round(coveredMinutes / lessonMinutes * 100) : 100;
+
+    return { lessons, recorded, percent, isLow: percent < minCoveragePercent };
+}
+
+// Timeline bar: lessons in grey, recorded time in green (orange when too little of the lesson is covered)
+function formatCoverageTimeline(coverage) {
+    const axisStart = Math.min(coverage.lessons[0][0], coverage.recorded[0][0]);
+    const axisEnd = Math.max(coverage.lessons[coverage.lessons.length - 1][1], coverage.recorded[coverage.recorded.length - 1][1]);
+    const span = Math.max(1, axisEnd - axisStart);
+    const bar = (className, [start, end]) =>
+        `<span class="${className}" style="left:${(start - axisStart) / span * 100}%;width:${(end - start) / span * 100}%;"></span>`;
+    const ranges = intervals => intervals.map(([start, end]) => `${minutesToTime(start)}-${minutesToTime(end)}`).join(', ');
+
+    const tooltip = `Lessons: ${ranges(coverage.lessons)}\nRecorded: ${ranges(coverage.recorded)}\n` +
+        `${coverage.percent}% of the lesson time recorded (expected at least ${minCoveragePercent}%)`;
+    return `
+        <div class="coverage${coverage.isLow ? ' low' : ''}" title="${escapeHtml(tooltip)}">
+            <div class="coverage-bar">
+                ${coverage.lessons.map(interval => bar('coverage-lesson', interval)).join('')}
+                ${coverage.recorded.map(interval => bar('coverage-recorded', interval)).join('')}
+            </div>
+            <span class="coverage-percent">${coverage.isLow ? '⚠️ ' : ''}${coverage.percent}%</span>
+        </div>
+    `;
+}
+
 // Create group recording row (one row per group, date cell spans multiple rows if needed)
 function createGroupRecordingRow(groupRecordings, date, isFirstGroup, rowspan, allDateRecordings = null) {
     const tr = document.createElement('tr');
@@ -268,19 +383,24 @@ function createGroupRecordingRow(groupRecordings, date, isFirstGroup, rowspan, a
     const allUploaded = groupRecordings.every(r => r.uploaded === true);
     const isMissing = !hasUploadedVideo && !hasLocalFolder;
     const isUploaded = allUploaded;
+    // No recording expected (cancelled lesson, holiday, exam, ...)
+    const exemption = isMissing ? (groupRecordings.find(r => r.exempt) || {}).exempt : null;
+    const isExempt = !!exemption;
 
     // For the first row (which contains LOCAL VIDEOS cell), determine color based on ALL groups on this date
+    // Exempt groups don't count; a date where every group is exempt gets the exempt color
     let rowStatus;
     if (isFirstGroup && allDateRecordings) {
-        const anyMissing = allDateRecordings.some(r => {
+        const expectedRecordings = allDateRecordings.filter(r => !r.exempt);
+        const anyMissing = expectedRecordings.some(r => {
             const uploaded = r.uploaded === true;
             const hasFolder = r.folder !== 'MISSING!';
             return !uploaded && !hasFolder;
         });
-        const allUploadedOnDate = allDateRecordings.every(r => r.uploaded === true);
-        rowStatus = anyMissing ? 'missing' : (allUploadedOnDate ? 'uploaded' : 'not-uploaded');
+        const allUploadedOnDate = expectedRecordings.every(r => r.uploaded === true);
+        rowStatus = expectedRecordings.length === 0 ? 'exempt' : (anyMissing ? 'missing' : (allUploadedOnDate ? 'uploaded' : 'not-uploaded'));
     } else {
-        rowStatus = isMissing ? 'missing' : (isUploaded ? 'uploaded' : 'not-uploaded');
+        rowStatus = isExempt ? 'exempt' : (isMissing ? 'missing' : (isUploaded ? 'uploaded' : 'not-uploaded'));
     }
 
     tr.className = rowStatus;
@@ -288,14 +408,29 @@ function createGroupRecordingRow(groupRecordings, date, isFirstGroup, rowspan, a
     // Time range - find a recording with valid times (some recordings might not have times)
     let timeRange = '-';
     const recWithTimes = groupRecordings.find(r => r.lessonStart && r.lessonEnd);
-    if (recWithTimes) {
+    if (recWithTimes && recWithTimes.lessons && recWithTimes.lessons.length > 0) {
+        // One line per lesson block: "10:00 - 11:30 Programming (A-201)"
+        timeRange = recWithTimes.lessons.map(lesson => {
+            const room = lesson.room ? ` <span class="lesson-room">(${escapeHtml(lesson.room)})</span>` : '';
+            const subject = lesson.subject ? ` <span class="lesson-subject">${escapeHtml(lesson.subject)}</span>` : '';
+            return `<div class="lesson-block">${lesson.start} - ${lesson.end}${subject}${room}</div>`;
+        }).join('');
+    } else if (recWithTimes) {
         // Use lessonTimeRange if available (handles multiple time ranges with commas)
         timeRange = recWithTimes.lessonTimeRange || `${recWithTimes.lessonStart} - ${recWithTimes.lessonEnd}`;
     }
 
+    // Scheduled lesson time against the time actually recorded
+    const coverage = getLessonCoverage(groupRecordings);
+    if (coverage) {
+        timeRange += formatCoverageTimeline(coverage);
+    }
+
     // Status badge
     let statusBadge
-    if (isMissing) {
+    if (isExempt) {
+        statusBadge = `<span class="badge exempt">🚫 NOT EXPECTED</span>`;
+    } else if (isMissing) {
         statusBadge = '<span class="badge missing">⚠️ MISSING</span>';
     } else if (isUploaded) {
         statusBadge = '<span class="badge uploaded">☁️ UPLOADED</span>';
@@ -352,7 +487,8 @@ function createGroupRecordingRow(groupRecordings, date, isFirstGroup, rowspan, a
                     name: driveFile.name,
                     url: driveFile.url,
                     size: fileSizeText,
-                    highlight: highlightStyle
+                    highlight: highlightStyle,
+                    shortcut: driveFile.shortcut === true
                 });
                 }
             });
@@ -371,7 +507,7 @@ function createGroupRecordingRow(groupRecordings, date, isFirstGroup, rowspan, a
                 <div class="video-item">
                     <div class="input-group">
                         <span class="input-group-text" ${folderClickable}>📁 ${studentGroup}</span>
-                        <input type="text" readonly class="form-control" value="☁️ ${video.name}" onclick="window.open('${video.url.replace(/'/g, "\\'")}', '_blank')" title="Click to open in Google Drive">
+                        <input type="text" readonly class="form-control" value="${video.shortcut ? '🔗' : '☁️'} ${video.name}" onclick="window.open('${video.url.replace(/'/g, "\\'")}', '_blank')" title="${video.shortcut ? 'Shortcut to a recording uploaded for another group (joint lesson). Click to open in Google Drive' : 'Click to open in Google Drive'}">
                         <span class="input-group-text" style="${video.highlight}">${video.size}</span>
                     </div>
                     <div class="action-buttons">
@@ -450,25 +586,65 @@ function createGroupRecordingRow(groupRecordings, date, isFirstGroup, rowspan, a
                     fileSizeBytes: video.fileSizeBytes,
                     isTimebolted: video.isTimebolted,
                     detectionMethod: video.detectionMethod,
+                    wallClock: video.wallClock || null,
+                    startClock: video.startClock || '',
                     isMatchingSize: isMatchingSize,
                     studentGroup: rec.studentGroup,
                     date: rec.date,
-                    folder: rec.folder
+                    subjects: rec.subjects || [],
+                    folder: rec.folder,
+                    folderPath: rec.folderPath || '',
+                    match: rec.match || null,
+                    manual: rec.manual === true
                 });
             });
         } else {
-            emptyFolders.push(rec.folder);
+            emptyFolders.push({ name: rec.folder, path: rec.folderPath || '' });
         }
     });
 
     // For LOCAL VIDEOS column, check if ALL recordings for this date are missing
     const localIsMissing = recordingsToProcess.every(r => r.folder === 'MISSING!');
 
-    if (localIsMissing) {
+    if (localIsMissing && recordingsToProcess.every(r => r.exempt)) {
+        const reasons = [...new Set(recordingsToProcess.map(r => r.exempt.reason))];
+        localVideosHTML = `<em style="color:#999;">No recording expected (${escapeHtml(reasons.join(', '))})</em>`;
+    } else if (localIsMissing) {
         localVideosHTML = '<em style="color:#999;">No recording found</em>';
     } else if (localVideos.length > 0) {
-        localVideosHTML = '<div class="video-list">';
+        // Parts of a split recording are listed together in playback order, under one header
+        const splitOf = new Map();
+        recordingsToProcess.forEach(rec => (rec.splitRecordings || []).forEach(split => {
+            if (splitOf.has(split.videos[0])) return;
+            const entry = { ...split, studentGroup: rec.studentGroup, date: rec.date, subjects: rec.subjects || [] };
+            splitRecordingsByFirstVideo.set(split.videos[0], entry);
+            split.videos.forEach(path => splitOf.set(path, entry));
+        }));
+        const orderedVideos = [];
         localVideos.forEach(video => {
+            const split = splitOf.get(video.path);
+            if (!split) {
+                orderedVideos.push(video);
+            } else if (!orderedVideos.some(v => v.split === split)) {
+                split.videos.forEach((path, partIndex) => {
+                    const part = localVideos.find(v => v.path === path);
+                    if (part) orderedVideos.push({ ...part, split, partIndex });
+                });
+            }
+        });
+
+        localVideosHTML = '<div class="video-list">';
+        orderedVideos.forEach(video => {
+          if (video.split && video.partIndex === 0) {
+              const range = video.split.start ? ` (${video.split.start}-${video.split.end || '?'})` : '';
+              localVideosHTML += `
+                <div class="split-recording">
+                    <span>🧩 One recording in ${video.split.videos.length} parts${range}</span>
+                    <button class="btn-action btn-rename" onclick="joinRecordingParts('${video.path.replace(/'/g, "\\'")}')" title="Join the parts into one file (lossless, no re-encoding)">⛓️</button>
+                </div>
+              `;
+          }
+
           let leftAddon = '';
           if (video.recordingTime) {
                 // Extract just the time part from "2025-05-14 09:13"
@@ -490,32 +666,44 @@ function createGroupRecordingRow(groupRecordings, date, isFirstGroup, rowspan, a
 
             const pathParts = video.path.split('/');
             const folderName = pathParts[pathParts.length - 2] || '';
-            const tooltip = `${folderName}\n${video.filename}\nRecording Time: ${video.recordingTime || 'Unknown'}\nFile Size: ${video.fileSize || 'Unknown'}\nTimebolted: ${video.isTimebolted ? 'Yes' : 'No'}\nMethod: ${video.detectionMethod || 'unknown'}`;
+            // Why the scanner assigned this recording to the group
+            const matchInfo = video.match
+                ? `\nMatched to ${video.studentGroup}: ${video.match.reason} (confidence ${Math.round(video.match.confidence * 100)}%)`
+                : '';
+            const tooltip = `${folderName}\n${video.filename}${matchInfo}\nSubject: ${video.subjects.join(', ') || 'Unknown'}\nRecording Time: ${video.recordingTime || 'Unknown'}\nFile Size: ${video.fileSize || 'Unknown'}\nTimebolted: ${video.isTimebolted ? 'Yes' : 'No'}\nMethod: ${video.detectionMethod || 'unknown'}`;
 
-            const filenameWithBadge = video.isTimebolted ? `🎬 ${video.filename}` : `📁 ${video.filename}`;
+            const partLabel = video.split ? `${video.partIndex + 1}/${video.split.videos.length} ` : '';
+            const filenameWithBadge = video.isTimebolted ? `🎬 ${partLabel}${video.filename}` : `${video.manual ? '📌' : '📁'} ${partLabel}${video.filename}`;
 
             localVideosHTML += `
-                <div class="video-item">
+                <div class="video-item${video.split ? ' split-part' : ''}">
                     <div class="input-group">
                         ${leftAddon ? `<span class="input-group-text">🕐 ${leftAddon}</span>` : ''}
-                        <input type="text" readonly class="form-control" value="${filenameWithBadge}" onclick="openInFinder('${video.path.replace(/'/g, "\\'")}')" title="${tooltip}">
+                        <input type="text" readonly class="form-control" value="${filenameWithBadge}" onclick="openInFinder('${video.path.replace(/'/g, "\\'")}')" title="${escapeHtml(tooltip)}">
                         <span class="input-group-text" style="${highlightStyle}">${video.fileSize}</span>
                     </div>
                     <div class="action-buttons">
-                        <button class="btn-action btn-rename" onclick="renameVideo('${video.path.replace(/'/g, "\\'")}', '${video.studentGroup}', '${video.date}')">✏️</button>
+                        <button class="btn-action btn-rename" onclick="renameVideo('${video.path.replace(/'/g, "\\'")}', '${video.studentGroup}', '${video.date}', '${escapeHtml((video.subjects.length === 1 ? video.subjects[0] : '').replace(/'/g, "\\'"))}')">✏️</button>
+                        <button class="btn-action btn-rename" onclick="assignRecording('${video.path.replace(/'/g, "\\'")}', '${video.folderPath.replace(/'/g, "\\'")}', '${escapeHtml(video.folder.replace(/'/g, "\\'"))}', '${video.studentGroup}', '${video.date}')" title="Assign to a lesson manually">📌</button>
+                        ${video.isTimebolted ? '' : `<button class="btn-action btn-rename" onclick="trimSilences('${video.path.replace(/'/g, "\\'")}')" title="Cut out the silences (local Timebolt)">✂️</button>`}
+                        ${video.isTimebolted ? '' : `<button class="btn-action btn-rename" onclick="trimToLesson('${video.path.replace(/'/g, "\\'")}', '${video.studentGroup}', '${video.date}')" title="Cut the time before and after the lesson">⏱️</button>`}
+                        <button class="btn-action btn-rename" onclick="buildWallClockIndex('${video.path.replace(/'/g, "\\'")}')" title="Read the clock through the whole video to find cuts and breaks">🕰️</button>
+                        <button class="btn-action btn-rename" onclick="reprocess({ videoPath: '${video.path.replace(/'/g, "\\'")}' })" title="Extract this video's timestamps and timebolt analysis again">♻️</button>
+                        <button class="btn-action btn-rename" onclick="trainDigitRecognizer('${video.path.replace(/'/g, "\\'")}', '${video.recordingTime && video.startClock ? `${video.recordingTime.split(' ')[0]} ${video.startClock}` : ''}')" title="Teach the built-in OCR this video's timestamp">🔢</button>
                         ${getUploadButtonHTML(video.path, video.studentGroup, video.date)}
                         <button class="btn-action btn-delete" onclick="deleteVideo('${video.path.replace(/'/g, "\\'")}')">🗑️</button>
                     </div>
                 </div>
+                ${video.wallClock ? formatWallClockSummary(video.wallClock) : ''}
             `;
         });
 
         // Add empty folders at the end
         emptyFolders.forEach(folder => {
-            const folderPath = `/Users/henno/Documents/Zoom/${folder}`;
+            const folderPath = folder.path;
             localVideosHTML += `
                 <div style="display:flex;align-items:center;gap:0.3rem;margin-top:0.5rem;">
-                    <em style="color:#0071e3;cursor:pointer;flex:1;" title="${folder}" onclick="openInFinder('${folderPath.replace(/'/g, "\\'")}')">📁 No videos (${folder})</em>
+                    <em style="color:#0071e3;cursor:pointer;flex:1;" title="${escapeHtml(folderPath)}" onclick="openInFinder('${folderPath.replace(/'/g, "\\'")}')">📁 No videos (${escapeHtml(folder.name)})</em>
                     <button class="btn-action btn-delete" onclick="deleteFolder('${folderPath.replace(/'/g, "\\'")}')">🗑️</button>
                 </div>
             `;
@@ -526,10 +714,10 @@ function createGroupRecordingRow(groupRecordings, date, isFirstGroup, rowspan, a
         // Only empty folders
         localVideosHTML = '<div class="video-list">';
         emptyFolders.forEach(folder => {
-            const folderPath = `/Users/henno/Documents/Zoom/${folder}`;
+            const folderPath = folder.path;
             localVideosHTML += `
                 <div style="display:flex;align-items:center;gap:0.3rem;">
-                    <em style="color:#0071e3;cursor:pointer;flex:1;" title="${folder}" onclick="openInFinder('${folderPath.replace(/'/g, "\\'")}')">📁 No videos (${folder})</em>
+                    <em style="color:#0071e3;cursor:pointer;flex:1;" title="${escapeHtml(folderPath)}" onclick="openInFinder('${folderPath.replace(/'/g, "\\'")}')">📁 No videos (${escapeHtml(folder.name)})</em>
                     <button class="btn-action btn-delete" onclick="deleteFolder('${folderPath.replace(/'/g, "\\'")}')">🗑️</button>
                 </div>
             `;
@@ -539,6 +727,23 @@ function createGroupRecordingRow(groupRecordings, date, isFirstGroup, rowspan, a
         localVideosHTML = '-';
     }
 
+    // Missing lessons can be marked as not expected to be recorded, exempt ones can be restored
+    let exemptionHTML = '';
+    if (isExempt) {
+        exemptionHTML = `<div class="exempt-reason">🚫 ${escapeHtml(exemption.reason)} <button class="btn-action btn-rename" onclick="removeExemption('${exemption.id}')" title="Recording expected after all">↩️</button></div>`;
+    } else if (isMissing) {
+        exemptionHTML = `<div><button class="btn-action btn-rename" onclick="exemptLesson('${date}', '${studentGroup}')" title="Mark as no recording expected (cancelled, holiday, exam, ...)">🚫</button></div>`;
+    }
+    const reprocessHTML = hasLocalFolder
+        ? `<div><button class="btn-action btn-rename" onclick="reprocess({ date: '${date}', group: '${studentGroup}' })" title="Extract the timestamps and timebolt analysis of this lesson's videos again">♻️</button></div>`
+        : '';
+
+    // Joint lessons: show the other groups attending the same lesson
+    const sharedWith = firstRec.sharedWith || [];
+    const sharedWithHTML = sharedWith.length > 0
+        ? `<div class="shared-with" title="Joint lesson with ${escapeHtml(sharedWith.join(', '))}">🔗 ${escapeHtml(sharedWith.join(', '))}</div>`
+        : '';
+
     // Build row HTML - only include date and local videos cells for first group
     let rowHTML = '';
 
@@ -548,8 +753,8 @@ function createGroupRecordingRow(groupRecordings, date, isFirstGroup, rowspan, a
     }
 
     rowHTML += `
-        <td><span class="badge group">${studentGroup}</span></td>
-        <td style="white-space:nowrap;font-size:0.75rem;">${timeRange}</td>
+        <td><span class="badge group">${studentGroup}</span>${sharedWithHTML}${exemptionHTML}${reprocessHTML}</td>
+        <td style="font-size:0.75rem;">${timeRange}</td>
         <td style="display:none;">${statusBadge}</td>
         <td style="max-width:300px;">${gdriveVideosHTML}</td>
     `;
@@ -599,7 +804,13 @@ function updateSummary() {
     let notUploaded = 0;
     let uploaded = 0;
 
-    Object.values(groupedByDate).forEach(dateRecordings => {
+    Object.values(groupedByDate).forEach(allDateRecordings => {
+        // Lessons with no recording expected are left out of the counts
+        const dateRecordings = allDateRecordings.filter(r => !r.exempt);
+        if (dateRecordings.length === 0) {
+            return;
+        }
+
         // Use same logic as createMergedRecordingRow
         const hasUploadedVideo = dateRecordings.some(r => r.uploaded === true);
         const hasLocalFolder = dateRecordings.some(r => r.folder !== 'MISSING!');
@@ -1093,13 +1304,17 @@ async function resumeUpload(videoPath, studentGroup, date) {
 }
 
 // Rename video
-async function renameVideo(videoPath, studentGroup, date) {
+async function renameVideo(videoPath, studentGroup, date, subject = '') {
     const oldFilename = videoPath.split('/').pop();
     const folderPath = videoPath.substring(0, videoPath.lastIndexOf('/'));
     const extension = oldFilename.substring(oldFilename.lastIndexOf('.'));
 
-    // Default new name: "TAK24 - 2025-10-14.mp4"
-    const defaultNewName = `${studentGroup} - ${date}${extension}`;
+    // Default new name: "TAK24 - 2025-10-14.mp4", or "TAK24 - 2025-10-14 - Programming.mp4"
+    // when the day has a single subject (characters not allowed in filenames are dropped)
+    const safeSubject = subject.replace(/[\/\\:*?"<>|]/g, '').trim();
+    const defaultNewName = safeSubject
+        ? `${studentGroup} - ${date} - ${safeSubject}${extension}`
+        : `${studentGroup} - ${date}${extension}`;
 
     const newFilename = prompt(`Rename video to:`, defaultNewName);
 
@@ -1271,6 +1486,16 @@ async function deleteVideo(videoPath) {
     }
 }
 
+// Escape text for safe insertion into HTML
+function escapeHtml(text) {
+    return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
 // Show toast notification
 function showToast(message, type = 'success') {
     const container = document.getElementById('toast-container');
@@ -1345,6 +1570,620 @@ async function deleteGDriveVideo(fileId, filename, studentGroup, date) {
     }
 }
 
+// Mark a group's lesson as not expected to be recorded
+async function exemptLesson(date, studentGroup) {
+    const reason = prompt(`Why is no recording expected for ${studentGroup} on ${date}?\n(e.g. Cancelled, Exam, Holiday, Practice)`, 'Cancelled');
+    if (!reason || !reason.trim()) {
+        return; // User cancelled
+    }
+    await createExemption({ from: date, studentGroup, reason: reason.trim() });
+}
+
+async function createExemption(body) {
+    try {
+        const response = await fetch('/api/exemptions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const result = await response.json();
+
+        if (!result.success) {
+            showToast(`Failed to save: ${result.error}`, 'error');
+            return;
+        }
+
+        showToast(`No recording expected: ${body.studentGroup || 'all groups'} ${body.from}${body.to && body.to !== body.from ? ` - ${body.to}` : ''}`);
+        loadData();
+    } catch (error) {
+        console.error('Error saving exemption:', error);
+        showToast('Failed to save exemption', 'error');
+    }
+}
+
+async function removeExemption(id) {
+    try {
+        const response = await fetch(`/api/exemptions?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+        const result = await response.json();
+
+        if (!result.success) {
+            showToast(`Failed to remove: ${result.error}`, 'error');
+            return;
+        }
+
+        showToast('Recording expected again');
+        loadData();
+    } catch (error) {
+        console.error('Error removing exemption:', error);
+        showToast('Failed to remove exemption', 'error');
+    }
+}
+
+// List exemptions; add a date range (holidays, exam weeks) or remove an existing one
+async function manageExemptions() {
+    try {
+        const response = await fetch('/api/exemptions');
+        const result = await response.json();
+        if (!result.success) {
+            showToast(`Failed to load exemptions: ${result.error}`, 'error');
+            return;
+        }
+
+        const list = result.exemptions.map((e, index) => {
+            const range = e.to !== e.from ? `${e.from} - ${e.to}` : e.from;
+            return `${index + 1}. ${range} ${e.studentGroup || 'all groups'}: ${e.reason}`;
+        }).join('\n');
+        const answer = prompt(
+            `No recording expected:\n\n${list || '(none)'}\n\n` +
+            `Enter a number to remove that entry, or a new range as "YYYY-MM-DD YYYY-MM-DD [GROUP]":`
+        );
+        if (answer === null || !answer.trim()) {
+            return;
+        }
+
+        const index = parseInt(answer) - 1;
+        if (/^\d+$/.test(answer.trim()) && result.exemptions[index]) {
+            await removeExemption(result.exemptions[index].id);
+            return;
+        }
+
+        const match = answer.trim().match(/^(\d{4}-\d{2}-\d{2})(?:\s+(\d{4}-\d{2}-\d{2}))?(?:\s+(\S+))?$/);
+        if (!match) {
+            alert('Please enter a number, or a range such as "2025-12-22 2026-01-04" or "2025-12-22 2026-01-04 TAK24"');
+            return;
+        }
+
+        const reason = prompt('Reason (e.g. Holiday, Exam week):', 'Holiday');
+        if (!reason || !reason.trim()) {
+            return;
+        }
+        await createExemption({ from: match[1], to: match[2] || match[1], studentGroup: match[3], reason: reason.trim() });
+    } catch (error) {
+        console.error('Error loading exemptions:', error);
+        showToast('Failed to load exemptions', 'error');
+    }
+}
+
+// Describe one lesson of a schedule change, e.g. "2025-10-14 10:00-11:30 TAK24 Programming"
+function formatScheduleLesson(lesson) {
+    return `${lesson.date} ${lesson.start}-${lesson.end} ${lesson.studentGroups.join(', ')}${lesson.subject ? ` ${lesson.subject}` : ''}`;
+}
+
+// Show lessons that were added, removed or moved by recent fetches
+async function loadScheduleChanges() {
+    try {
+        const response = await fetch('/api/schedule-changes');
+        const result = await response.json();
+        if (!result.success) {
+            console.warn('Failed to load schedule changes:', result.error);
+            return;
+        }
+
+        // Only the last 14 days of detections are of interest
+        const cutoff = Date.now() - 14 * 24 * 60 * 60 * 1000;
+        const recent = result.history.filter(entry => new Date(entry.detectedAt).getTime() >= cutoff);
+        const items = recent.flatMap(entry => entry.changes.map(change => {
+            const detected = new Date(entry.detectedAt).toLocaleString();
+            let text;
+            if (change.type === 'moved') {
+                text = `🔀 Moved: ${formatScheduleLesson(change.from)} → ${change.to.date} ${change.to.start}-${change.to.end}`;
+            } else if (change.type === 'added') {
+                text = `➕ Added: ${formatScheduleLesson(change.lesson)}`;
+            } else {
+                text = `➖ Removed: ${formatScheduleLesson(change.lesson)}`;
+            }
+            return `<li class="schedule-change ${change.type}">${escapeHtml(text)} <span class="detected-at">(detected ${escapeHtml(detected)})</span></li>`;
+        }));
+
+        document.getElementById('schedule-changes-count').textContent = items.length;
+        document.getElementById('schedule-changes-list').innerHTML = items.join('');
+        document.getElementById('schedule-changes').classList.toggle('hidden', items.length === 0);
+    } catch (error) {
+        console.warn('Failed to load schedule changes:', error);
+    }
+}
+
+// Cut the silences out of a video on the server; progress arrives through the live updates
+async function trimSilences(videoPath) {
+    try {
+        const defaultsResponse = await fetch('/api/silence-trim');
+        const { defaults } = await defaultsResponse.json();
+
+        const answer = prompt(
+            `Cut the silences out of ${videoPath.split('/').pop()}?\n\n` +
+            `A trimmed copy "(timebolted)" is created next to the original.\n` +
+            `Settings: silence threshold (dB), minimum silence (s), padding (s):`,
+            `${defaults.noiseDb} ${defaults.minSilenceSeconds} ${defaults.paddingSeconds}`
+        );
+        if (answer === null) {
+            return;
+        }
+        const [noiseDb, minSilenceSeconds, paddingSeconds] = answer.trim().split(/\s+/).map(Number);
+
+        const response = await fetch('/api/silence-trim', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videoPath, noiseDb, minSilenceSeconds, paddingSeconds })
+        });
+        const result = await response.json();
+        if (result.success) {
+            showToast(`✂️ Detecting silences in ${videoPath.split('/').pop()}...`);
+        } else {
+            showToast(`Failed to start silence trim: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        console.error('Error starting silence trim:', error);
+        showToast('Failed to start silence trim', 'error');
+    }
+}
+
+// "HH:MM:SS" for seconds from the start of a video
+function formatVideoPosition(totalSeconds) {
+    const rounded = Math.round(totalSeconds);
+    return [Math.floor(rounded / 3600), Math.floor((rounded % 3600) / 60), rounded % 60]
+        .map(n => String(n).padStart(2, '0')).join(':');
+}
+
+// Seconds for "HH:MM:SS", "MM:SS" or plain seconds; NaN when not a time
+function parseVideoPosition(text) {
+    return text.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+// Cut the dead time before and after the lesson, using the schedule and the clock burned into the video
+async function trimToLesson(videoPath, studentGroup, date) {
+    try {
+        const planResponse = await fetch(`/api/trim-to-lesson?path=${encodeURIComponent(videoPath)}&date=${encodeURIComponent(date)}&group=${encodeURIComponent(studentGroup)}`);
+        const planResult = await planResponse.json();
+        if (!planResult.success) {
+            showToast(`Cannot trim to lesson: ${planResult.error}`, 'error');
+            return;
+        }
+        const plan = planResult.plan;
+
+        const answer = prompt(
+            `Trim ${videoPath.split('/').pop()} to the lesson?\n\n` +
+            `Lesson: ${plan.lessonStart}-${plan.lessonEnd}\n` +
+            `Video clock: ${plan.videoStart}-${plan.videoEnd} (${formatVideoPosition(plan.durationSeconds)} long)\n` +
+            (plan.warnings.length > 0 ? `\n⚠️ ${plan.warnings.join('\n⚠️ ')}\n` : '') +
+            `\nA copy "(lesson)" is created next to the original. Keep from / to (position in the video):`,
+            `${formatVideoPosition(plan.inSeconds)} ${formatVideoPosition(plan.outSeconds)}`
+        );
+        if (answer === null) {
+            return;
+        }
+        const [inSeconds, outSeconds] = answer.trim().split(/\s+/).map(parseVideoPosition);
+        if (!(inSeconds >= 0) || !(outSeconds > inSeconds)) {
+            showToast('Enter two positions like "00:04:30 01:35:00"', 'error');
+            return;
+        }
+
+        showToast(`⏱️ Trimming ${videoPath.split('/').pop()}...`);
+        const response = await fetch('/api/trim-to-lesson', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videoPath, inSeconds, outSeconds })
+        });
+        const result = await response.json();
+        if (result.success) {
+            showToast(`Trimmed to ${result.path.split('/').pop()}`);
+        } else {
+            showToast(`Failed to trim to lesson: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        console.error('Error trimming to lesson:', error);
+        showToast('Failed to trim to lesson', 'error');
+    }
+}
+
+// One line under a video: the real time it covers, its breaks and how much was cut
+function formatWallClockSummary(wallClock) {
+    if (!wallClock.coveredStart) {
+        return '<div class="wall-clock">🕰️ Clock could not be read</div>';
+    }
+    const minutes = seconds => `${Math.round(seconds / 60)} min`;
+    const breaks = wallClock.gaps.filter(gap => gap.kind === 'break');
+    const cuts = wallClock.gaps.filter(gap => gap.kind === 'cut');
+
+    const parts = [`Covers ${wallClock.coveredStart.substring(0, 5)}-${wallClock.coveredEnd.substring(0, 5)}`];
+    breaks.forEach(gap => parts.push(`break ${gap.fromClock.substring(0, 5)}-${gap.toClock.substring(0, 5)} (${minutes(gap.missingSeconds)})`));
+    if (cuts.length > 0) {
+        parts.push(`${cuts.length} cuts (${minutes(cuts.reduce((total, gap) => total + gap.missingSeconds, 0))})`);
+    }
+    const tooltip = wallClock.segments
+        .map(segment => `${formatVideoPosition(segment.videoStart)}-${formatVideoPosition(segment.videoEnd)} → ${segment.clockStart}-${segment.clockEnd}`)
+        .join('\n');
+    return `<div class="wall-clock" title="${escapeHtml(`Video → clock (sampled every ${wallClock.intervalSeconds}s):\n${tooltip}`)}">🕰️ ${escapeHtml(parts.join(' · '))}</div>`;
+}
+
+// Sample the clock through a whole video on the server; the result arrives through the live updates
+async function buildWallClockIndex(videoPath) {
+    const answer = prompt(
+        `Read the clock of ${videoPath.split('/').pop()} through the whole video?\n\n` +
+        `This shows the time the video really covers and where it was cut or paused.\n` +
+        `Seconds between samples:`,
+        '60'
+    );
+    if (answer === null) {
+        return;
+    }
+
+    try {
+        const response = await fetch('/api/wall-clock-index', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videoPath, intervalSeconds: Number(answer) })
+        });
+        const result = await response.json();
+        if (result.success) {
+            showToast(`🕰️ Queued reading the clock of ${videoPath.split('/').pop()}`);
+        } else {
+            showToast(`Failed to read the clock: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        console.error('Error building wall-clock index:', error);
+        showToast('Failed to read the clock', 'error');
+    }
+}
+
+// Teach the built-in timestamp recognizer the digits of a video whose start time is confirmed by the user
+async function trainDigitRecognizer(videoPath, readTimestamp) {
+    const text = prompt(
+        `Timestamp shown at the very start of ${videoPath.split('/').pop()}?\n\n` +
+        `Check it in the video and correct it if needed; its digits are learned by the built-in OCR.`,
+        readTimestamp || ''
+    );
+    if (!text || !text.trim()) {
+        return;
+    }
+
+    try {
+        const response = await fetch('/api/digit-templates', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videoPath, text: text.trim() })
+        });
+        const result = await response.json();
+        if (result.success) {
+            showToast(`🔢 Learned ${result.learned.join(' ')} (profile ${result.profile} knows ${result.known.join(' ')})`);
+        } else {
+            showToast(`Failed to learn the timestamp: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        console.error('Error training the digit recognizer:', error);
+        showToast('Failed to learn the timestamp', 'error');
+    }
+}
+
+// Metadata extraction and wall-clock index jobs of the server, kept current by the live updates
+const analysisJobs = new Map();
+const JOB_KIND_LABELS = { 'metadata': '📹 Metadata', 'wall-clock-index': '🕰️ Clock' };
+
+async function loadAnalysisJobs() {
+    try {
+        const response = await fetch('/api/jobs');
+        const result = await response.json();
+        if (!result.success) {
+            console.warn('Failed to load analysis jobs:', result.error);
+            return;
+        }
+        analysisJobs.clear();
+        result.jobs.forEach(job => analysisJobs.set(job.id, job));
+        renderAnalysisJobs();
+    } catch (error) {
+        console.warn('Failed to load analysis jobs:', error);
+    }
+}
+
+// Running jobs first, then queued ones in the order they will run, then the last finished ones
+function renderAnalysisJobs() {
+    const jobs = Array.from(analysisJobs.values());
+    const rank = { running: 0, queued: 1 };
+    const active = jobs
+        .filter(job => job.status in rank)
+        .sort((a, b) => rank[a.status] - rank[b.status] || b.priority - a.priority || a.createdAt.localeCompare(b.createdAt));
+    const finished = jobs
+        .filter(job => !(job.status in rank))
+        .sort((a, b) => (b.finishedAt || '').localeCompare(a.finishedAt || ''))
+        .slice(0, 10);
+
+    const items = [...active, ...finished].map(job => {
+        const filename = job.videoPath.split('/').pop();
+        const step = job.status === 'error' ? `Failed: ${job.error}` : job.step;
+        return `<li class="analysis-job ${job.status}">
+            <span>${JOB_KIND_LABELS[job.kind] || job.kind}</span>
+            <span title="${escapeHtml(job.videoPath)}">${escapeHtml(filename)}</span>
+            ${job.status === 'running' ? `<progress value="${job.progress}" max="1"></progress>` : ''}
+            <span class="job-step">${escapeHtml(step)}</span>
+            ${job.status in rank ? `<button class="btn-action btn-delete" onclick="cancelAnalysisJob('${job.id}')" title="Cancel (stops its ffmpeg/tesseract processes)">✖</button>` : ''}
+        </li>`;
+    });
+
+    document.getElementById('analysis-jobs-count').textContent = active.length;
+    document.getElementById('analysis-jobs-list').innerHTML = items.join('');
+    document.getElementById('analysis-jobs').classList.toggle('hidden', items.length === 0);
+}
+
+async function cancelAnalysisJob(id) {
+    try {
+        const response = await fetch('/api/jobs/cancel', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id })
+        });
+        const result = await response.json();
+        if (!result.success) {
+            showToast(`Failed to cancel: ${result.error}`, 'error');
+        }
+        // The job's new status arrives through the live updates
+    } catch (error) {
+        console.error('Error cancelling job:', error);
+        showToast('Failed to cancel the job', 'error');
+    }
+}
+
+// Extract the metadata of videos again: { videoPath }, { date, group } of a lesson, or {} for every video
+async function reprocess(target) {
+    const what = target.videoPath ? target.videoPath.split('/').pop()
+        : target.date ? `the videos of ${target.group} on ${target.date}` : 'every video';
+    const choice = prompt(
+        `Extract again for ${what}:\n\n1 = timebolt analysis\n2 = OCR timestamps\n3 = everything\n\n` +
+        `Times set by hand in the OCR failures panel are kept.`,
+        '3'
+    );
+    const kind = { 1: 'timebolt', 2: 'timestamps', 3: 'metadata' }[(choice || '').trim()];
+    if (!kind) {
+        return;
+    }
+
+    try {
+        const response = await fetch('/api/reprocess', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ kind, ...target })
+        });
+        const result = await response.json();
+        if (result.success) {
+            // Each video's new metadata arrives through the live updates
+            const notes = [];
+            if (result.busy.length > 0) notes.push(`${result.busy.length} busy, try again later`);
+            if (result.manualKept > 0) notes.push(`${result.manualKept} with times set by hand kept`);
+            showToast(`♻️ Queued ${result.queued.length} video${result.queued.length === 1 ? '' : 's'}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`);
+        } else {
+            showToast(`Failed to reprocess: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        console.error('Error reprocessing videos:', error);
+        showToast('Failed to reprocess', 'error');
+    }
+}
+
+// Videos whose burned-in timestamps OCR could not read, with the kept frames and what each engine read
+let ocrFailures = [];
+
+async function loadOcrFailures() {
+    try {
+        const response = await fetch('/api/ocr-failures');
+        const result = await response.json();
+        if (!result.success) {
+            console.warn('Failed to load OCR failures:', result.error);
+            return;
+        }
+        ocrFailures = result.failures;
+
+        const items = ocrFailures.map((failure, index) => {
+            const imageUrl = image => `/api/ocr-failures/image?path=${encodeURIComponent(failure.videoPath)}&file=${encodeURIComponent(image.file)}`;
+            const images = failure.images.map(image =>
+                `<figure><a href="${imageUrl(image)}" target="_blank"><img src="${imageUrl(image)}" alt="${escapeHtml(image.label)}" loading="lazy"></a>` +
+                `<figcaption>${escapeHtml(image.label)}</figcaption></figure>`
+            ).join('');
+            const attempts = failure.attempts.map(attempt =>
+                `<tr><td>${escapeHtml(attempt.frame)}</td><td>${escapeHtml(attempt.profile)}</td><td>${escapeHtml(attempt.engine)}</td>` +
+                `<td class="ocr-text">${escapeHtml(attempt.rawText)}</td><td class="ocr-text">${escapeHtml(attempt.cleanedText)}</td></tr>`
+            ).join('');
+            const start = failure.timestamp ? `${failure.timestamp.split(' ')[0]} ${failure.startClock || failure.timestamp.split(' ')[1]}` : '';
+
+            return `<div class="ocr-failure">
+                <div class="ocr-failure-title">📁 ${escapeHtml(failure.filename)}
+                    <span class="missing">${failure.missing === 'start' ? 'start time not read' : 'end time not read'}</span></div>
+                ${failure.replacedManual ? `<div class="ocr-failure-replaced">⚠️ The file changed since its times were set by hand
+                    (${escapeHtml(failure.replacedManual.timestamp)}${failure.replacedManual.endClock ? `-${escapeHtml(failure.replacedManual.endClock)}` : ''}); they are not applied to the new content</div>` : ''}
+                ${images ? `<div class="ocr-failure-images">${images}</div>` : ''}
+                ${attempts ? `<table class="ocr-attempts"><tr><th>Frame</th><th>Profile</th><th>Engine</th><th>Raw</th><th>Cleaned</th></tr>${attempts}</table>` : ''}
+                <div class="ocr-failure-correction">
+                    Start <input type="text" id="ocr-start-${index}" placeholder="YYYY-MM-DD HH:MM:SS" value="${escapeHtml(start)}">
+                    End <input type="text" id="ocr-end-${index}" placeholder="HH:MM:SS" value="${escapeHtml(failure.endClock)}">
+                    <button class="btn-action btn-rename" onclick="correctTimestamps(${index})">💾 Save</button>
+                    <button class="btn-action btn-rename" onclick="trainDigitRecognizer(ocrFailures[${index}].videoPath, document.getElementById('ocr-start-${index}').value)" title="Teach the built-in OCR the digits of this video">🔢 Train</button>
+                </div>
+            </div>`;
+        });
+
+        document.getElementById('ocr-failures-count').textContent = items.length;
+        document.getElementById('ocr-failures-list').innerHTML = items.join('');
+        document.getElementById('ocr-failures').classList.toggle('hidden', items.length === 0);
+    } catch (error) {
+        console.warn('Failed to load OCR failures:', error);
+    }
+}
+
+// Save the times typed for a video of the OCR failures panel; they are never overwritten by OCR
+async function correctTimestamps(index) {
+    const failure = ocrFailures[index];
+    const start = document.getElementById(`ocr-start-${index}`).value.trim();
+    const end = document.getElementById(`ocr-end-${index}`).value.trim();
+    if (!start) {
+        showToast('Type the start date and time shown in the video', 'error');
+        return;
+    }
+
+    try {
+        const response = await fetch('/api/ocr-failures/correct', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videoPath: failure.videoPath, start, end })
+        });
+        const result = await response.json();
+        if (result.success) {
+            showToast(`✏️ Times of ${failure.filename} saved`);
+            loadOcrFailures();
+        } else {
+            showToast(`Failed to save the times: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        console.error('Error correcting timestamps:', error);
+        showToast('Failed to save the times', 'error');
+    }
+}
+
+// Join the parts of a split recording into one file named like an upload ("TAK24 - 2025-10-14.mp4")
+async function joinRecordingParts(firstVideoPath) {
+    const split = splitRecordingsByFirstVideo.get(firstVideoPath);
+    if (!split) {
+        return;
+    }
+
+    const extension = firstVideoPath.substring(firstVideoPath.lastIndexOf('.'));
+    const filename = prompt(
+        `Join ${split.videos.length} parts into one file (no re-encoding):\n\n` +
+        `${split.videos.map((p, i) => `${i + 1}. ${p.split('/').pop()}`).join('\n')}\n\nFilename:`,
+        `${split.studentGroup} - ${split.date}${extension}`
+    );
+    if (!filename || !filename.trim()) {
+        return;
+    }
+    const deleteParts = confirm('Delete the original parts after joining?\n\nOK = delete them, Cancel = keep them');
+
+    showToast(`⛓️ Joining ${split.videos.length} parts...`);
+    try {
+        const response = await fetch('/api/concat', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videos: split.videos, filename: filename.trim(), deleteParts })
+        });
+        const result = await response.json();
+        if (result.success) {
+            showToast(`✅ Joined into ${filename.trim()}`);
+            await loadData();
+        } else {
+            showToast(`Failed to join parts: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        console.error('Error joining parts:', error);
+        showToast('Failed to join parts', 'error');
+    }
+}
+
+// Manually assign a video (or its whole folder) to a lesson, or mark it as not a lesson
+async function assignRecording(videoPath, folderPath, folder, studentGroup, date) {
+    const answer = prompt(
+        `Assign to which lesson?\n\nEnter "GROUP YYYY-MM-DD", or "none" if this is not a lesson recording.`,
+        `${studentGroup} ${date}`
+    );
+    if (answer === null) {
+        return; // User cancelled
+    }
+
+    const trimmed = answer.trim();
+    let body;
+    if (/^none$/i.test(trimmed)) {
+        body = { notLesson: true };
+    } else {
+        const match = trimmed.match(/^(\S+)\s+(\d{4}-\d{2}-\d{2})$/);
+        if (!match) {
+            alert('Please enter the group and date, e.g. "TAK24 2025-10-14"');
+            return;
+        }
+        body = { studentGroup: match[1], date: match[2] };
+    }
+
+    // Loose files are their own recording; folder recordings can be assigned as a whole
+    const filename = videoPath.split('/').pop();
+    const isLooseFile = folder === filename;
+    const wholeFolder = !isLooseFile && confirm(`Apply to the whole folder "${folder}"?\n\nOK = whole folder, Cancel = only this video`);
+    body.path = wholeFolder ? folderPath : videoPath;
+
+    try {
+        const response = await fetch('/api/assign', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const result = await response.json();
+
+        if (!result.success) {
+            showToast(`Failed to assign: ${result.error}`, 'error');
+            return;
+        }
+
+        showToast(body.notLesson ? `${wholeFolder ? folder : filename} marked as not a lesson` : `Assigned to ${body.studentGroup} on ${body.date}`);
+        loadData();
+    } catch (error) {
+        console.error('Error assigning recording:', error);
+        showToast('Failed to assign recording', 'error');
+    }
+}
+
+// List manual assignments and optionally remove one
+async function showAssignments() {
+    try {
+        const response = await fetch('/api/assign');
+        const result = await response.json();
+        if (!result.success) {
+            showToast(`Failed to load assignments: ${result.error}`, 'error');
+            return;
+        }
+
+        const entries = Object.entries(result.overrides);
+        if (entries.length === 0) {
+            alert('No manual assignments. Use 📌 next to a video to assign it to a lesson.');
+            return;
+        }
+
+        const list = entries.map(([path, override], index) => {
+            const target = override.notLesson ? 'not a lesson' : `${override.studentGroup} ${override.date}`;
+            return `${index + 1}. ${path.split('/').pop()} → ${target}`;
+        }).join('\n');
+        const answer = prompt(`Manual assignments:\n\n${list}\n\nEnter a number to remove that assignment:`);
+        const index = parseInt(answer) - 1;
+        if (answer === null || isNaN(index) || !entries[index]) {
+            return;
+        }
+
+        const deleteResponse = await fetch(`/api/assign?path=${encodeURIComponent(entries[index][0])}`, { method: 'DELETE' });
+        const deleteResult = await deleteResponse.json();
+        if (!deleteResult.success) {
+            showToast(`Failed to remove assignment: ${deleteResult.error}`, 'error');
+            return;
+        }
+
+        showToast('Manual assignment removed');
+        loadData();
+    } catch (error) {
+        console.error('Error loading assignments:', error);
+        showToast('Failed to load assignments', 'error');
+    }
+}
+
 // Delete folder
 async function deleteFolder(folderPath) {
     const folderName = folderPath.split('/').pop();
@@ -1453,6 +2292,59 @@ async function refreshData() {
     }
 }
 
+// Live updates: the server watches the recording folders and pushes changes
+let liveReloadTimer = null;
+
+function connectLiveUpdates() {
+    const events = new EventSource('/api/events');
+
+    events.onmessage = (event) => {
+        const data = JSON.parse(event.data);
+
+        if (data.type === 'recordings-changed') {
+            const parts = [];
+            if (data.added.length > 0) parts.push(`New: ${data.added.join(', ')}`);
+            if (data.removed.length > 0) parts.push(`Removed: ${data.removed.join(', ')}`);
+            if (parts.length > 0) {
+                showToast(`📂 ${parts.join(' · ')}`);
+            }
+
+            // Several changes in a row cause a single reload
+            clearTimeout(liveReloadTimer);
+            liveReloadTimer = setTimeout(loadData, 1000);
+        } else if (data.type === 'video-metadata') {
+            videoMetadataCache.set(data.path, data.metadata);
+            renderRecordings();
+            // A video whose times could not be read joins the OCR failures panel
+            if (!data.metadata.recordingTime || !data.metadata.endTimestamp) {
+                loadOcrFailures();
+            }
+        } else if (data.type === 'analysis-job') {
+            analysisJobs.set(data.job.id, data.job);
+            renderAnalysisJobs();
+        } else if (data.type === 'wall-clock-index') {
+            const filename = data.path.split('/').pop();
+            if (data.status === 'complete') {
+                showToast(`🕰️ Clock read through ${filename}`);
+            } else {
+                showToast(`Reading the clock of ${filename} failed: ${data.error}`, 'error');
+            }
+        } else if (data.type === 'silence-trim') {
+            const filename = data.job.videoPath.split('/').pop();
+            if (data.job.status === 'rendering') {
+                showToast(`✂️ Cutting ${Math.round(data.job.removedSeconds / 60)} min of silence from ${filename}...`);
+            } else if (data.job.status === 'complete') {
+                showToast(`✅ Trimmed: ${data.job.outputPath.split('/').pop()}`);
+            } else if (data.job.status === 'error') {
+                showToast(`Silence trim failed for ${filename}: ${data.job.error}`, 'error');
+            }
+        }
+    };
+
+    // EventSource reconnects by itself after the server restarts
+    events.onerror = () => console.warn('Live updates disconnected, reconnecting...');
+}
+
 // Check Google Drive authentication status
 async function checkAuthStatus() {
     try {
@@ -1518,6 +2410,9 @@ async function authorizeGoogleDrive() {
 document.getElementById('authBtn').addEventListener('click', authorizeGoogleDrive);
 document.getElementById('syncBtn').addEventListener('click', syncWithDrive);
 document.getElementById('refreshBtn').addEventListener('click', refreshData);
+document.getElementById('assignmentsBtn').addEventListener('click', showAssignments);
+document.getElementById('exemptionsBtn').addEventListener('click', manageExemptions);
+document.getElementById('reprocessBtn').addEventListener('click', () => reprocess({}));
 
 document.getElementById('filter-missing').addEventListener('change', (e) => {
     filters.missing = e.target.checked;
@@ -1534,6 +2429,16 @@ document.getElementById('filter-uploaded').addEventListener('change', (e) => {
     renderRecordings();
 });
 
+document.getElementById('filter-exempt').addEventListener('change', (e) => {
+    filters.exempt = e.target.checked;
+    renderRecordings();
+});
+
+document.getElementById('filter-low-coverage').addEventListener('change', (e) => {
+    filters.lowCoverage = e.target.checked;
+    renderRecordings();
+});
+
 document.getElementById('filter-group').addEventListener('change', (e) => {
     filters.group = e.target.value;
     renderRecordings();
@@ -1542,3 +2447,4 @@ document.getElementById('filter-group').addEventListener('change', (e) => {
 // Initial load
 checkAuthStatus();
 loadData();
+connectLiveUpdates();
@@ -0,0 +1,64 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+const OVERRIDES_PATH = 'data/assignment-overrides.json';
+
+/**
+ * A manual decision about a recording folder or a single video, made in the dashboard
+ * Either assigns it to a lesson (date + group) or marks it as "not a lesson"
+ */
+export interface AssignmentOverride {
+  kind: 'folder' | 'video';
+  date?: string;          // YYYY-MM-DD
+  studentGroup?: string;
+  notLesson?: boolean;    // Exclude from matching altogether
+  assignedAt: string;
+}
+
+// Keyed by absolute folder or video path
+export type AssignmentOverrides = { [path: string]: AssignmentOverride };
+
+/**
+ * Load manual assignment overrides (empty when none were made yet)
+ */
+export function loadAssignmentOverrides(): AssignmentOverrides {
+  if (!existsSync(OVERRIDES_PATH)) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(OVERRIDES_PATH, 'utf-8')) || {};
+  } catch (error: any) {
+    throw new Error(`Could not parse ${OVERRIDES_PATH}: ${error.message}`);
+  }
+}
+
+export function saveAssignmentOverrides(overrides: AssignmentOverrides) {
+  writeFileSync(OVERRIDES_PATH, JSON.stringify(overrides, null, 2));
+}
+
+/**
+ * Keep a video override attached to its file after the file is renamed
+ */
+export function renameAssignmentOverride(oldPath: string, newPath: string) {
+  const overrides = loadAssignmentOverrides();
+  if (overrides[oldPath]) {
+    overrides[newPath] = overrides[oldPath];
+    delete overrides[oldPath];
+    saveAssignmentOverrides(overrides);
+  }
+}
+
+/**
+ * Find the override that decides a video: its own, or else its folder's
+ */
+export function getOverrideForVideo(
+  overrides: AssignmentOverrides,
+  videoPath: string,
+  folderPath: string
+): AssignmentOverride | undefined {
+  const own = overrides[videoPath];
+  if (own?.kind === 'video') {
+    return own;
+  }
+  const folder = overrides[folderPath];
+  return folder?.kind === 'folder' ? folder : undefined;
+}
@@ -0,0 +1,496 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+
+const SCHEDULE_CONFIG_PATH = 'config/schedule.json';
+const RECORDINGS_CONFIG_PATH = 'config/recordings.json';
+
+// Tahvel timetable search parameters
+export interface TahvelConfig {
+  schoolId: number;
+  teacherIds: string[];
+  lang: string;
+}
+
+// iCalendar (ICS) import parameters
+export interface IcsConfig {
+  source: string;        // File path or http(s)/webcal URL of the calendar export
+  groupPattern: string;  // Regex that finds the student group code in the event summary
+}
+
+export type ScheduleProviderName = 'tahvel' | 'ics';
+
+// Rules for dropping events attended by many groups (assemblies, staff meetings, ...)
+export interface SchoolWideEventsConfig {
+  minGroups: number;        // Events with at least this many groups count as school-wide
+  allowSubjects: string[];  // Subjects (case-insensitive substrings) that are never school-wide
+}
+
+export interface ScheduleConfig {
+  provider: ScheduleProviderName;
+  tahvel?: TahvelConfig;
+  ics?: IcsConfig;
+  schoolWideEvents: SchoolWideEventsConfig;
+  from: string;       // First day of the schedule window (YYYY-MM-DD)
+  to?: string;        // Last day of the window (YYYY-MM-DD), overrides daysAhead
+  daysAhead: number;  // When "to" is not set, the window ends this many days after today
+}
+
+// Built-in silence trimming, a local alternative to Timebolt
+export interface SilenceTrimConfig {
+  noiseDb: number;            // Audio quieter than this (dBFS, negative) counts as silence
+  minSilenceSeconds: number;  // Only pauses at least this long are cut
+  paddingSeconds: number;     // Silence kept on both sides of every cut, so words are not clipped
+}
+
+// Where the timestamp overlay is in a frame, measured from `anchor`
+export interface OcrRegion {
+  anchor: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  unit: 'px' | 'fraction';    // Pixels, or fractions of the frame width/height (for any resolution)
+  width: number;
+  height: number;
+  marginX: number;            // Distance from the anchored left/right edge
+  marginY: number;            // Distance from the anchored top/bottom edge
+}
+
+// A character replacement applied to the OCR text before the timestamp is parsed
+export interface OcrCleanupRule {
+  pattern: string;            // Regular expression, applied globally
+  replacement: string;
+}
+
+// How to read the timestamp of one recording layout
+export interface OcrProfile {
+  name: string;
+  region: OcrRegion;
+  scale: number;              // Upscaling before OCR; tesseract reads small text poorly
+  psm: number;                // Tesseract page segmentation mode (7 = a single line of text)
+  cleanup: OcrCleanupRule[];  // In order
+}
+
+// Where local recordings are found and how their names are read
+export interface RecordingsConfig {
+  roots: string[];            // Absolute directories that contain recording folders (or loose video files)
+  folderPatterns: RegExp[];   // Name patterns with named groups: date (or year/month/day), optional hour/minute
+  extensions: string[];       // Lower-case video file extensions including the dot
+  looseFiles: boolean;        // Also treat video files directly inside a root as recordings (OBS style)
+  startToleranceMinutes: number;  // A recording may start this long before the lesson it is matched to
+  minCoveragePercent: number; // Recordings covering less of their lesson time are flagged in the dashboard
+  silenceTrim: SilenceTrimConfig;
+  ocrProfiles: OcrProfile[];  // Tried in order until one reads a timestamp
+  rootOcrProfiles: { [root: string]: string };  // Recording root -> the only profile used for its videos
+}
+
+export interface DateWindow {
+  from: string;
+  to: string;
+}
+
+// Matches group codes such as TAK24, IS24 or KIT25A
+const DEFAULT_ICS_GROUP_PATTERN = '\\b([A-Z]{2,}\\d{2}[A-Z]?)\\b';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Zoom ("2025-10-14 10.00.03 Meeting") and OBS ("2025-10-14 10-00-03") names, time optional
+const DEFAULT_FOLDER_PATTERN = '^(?<date>\\d{4}-\\d{2}-\\d{2})(?:[ _T](?<hour>\\d{2})[.:-](?<minute>\\d{2}))?';
+const DEFAULT_RECORDING_ROOTS = ['~/Documents/Zoom'];
+const DEFAULT_VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.avi', '.mov', '.m4v'];
+// Same threshold as the timebolt detection, which looks for 1 s pauses at -30 dB
+const DEFAULT_SILENCE_TRIM: SilenceTrimConfig = { noiseDb: -30, minSilenceSeconds: 1, paddingSeconds: 0.25 };
+// Zoom's timestamp box at fixed pixel offsets from the bottom-right corner, and tesseract's usual misreads of its font
+export const DEFAULT_OCR_PROFILE: OcrProfile = {
+  name: 'zoom',
+  region: { anchor: 'bottom-right', unit: 'px', width: 300, height: 45, marginX: 21, marginY: 15 },
+  scale: 4,
+  psm: 7,
+  cleanup: [
+    { pattern: '[;,()]', replacement: '-' },
+    { pattern: '[°*]', replacement: ':' },
+    { pattern: '[oOQ]', replacement: '0' },
+    { pattern: '[lI|]', replacement: '1' },
+    { pattern: '[Uu]', replacement: '0' },
+    { pattern: '[Zz]', replacement: '2' },
+    { pattern: '\\s+', replacement: ' ' },
+    { pattern: '--+', replacement: '-' },
+    { pattern: '[Ff]', replacement: '7' }
+  ]
+};
+const OCR_ANCHORS = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD format
+ */
+export function isValidDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+}
+
+/**
+ * Format a Date as YYYY-MM-DD in local time
+ */
+export function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Expand a leading ~ to the home directory
+ */
+export function expandHomePath(path: string): string {
+  if (path === '~') {
+    return homedir();
+  }
+  return path.startsWith('~/') ? join(homedir(), path.substring(2)) : path;
+}
+
+/**
+ * Read and parse a JSON config file, turning syntax errors into a readable message
+ */
+function readConfigFile(path: string): any {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Could not parse ${path}: ${error.message}`);
+  }
+}
+
+/**
+ * Load schedule source configuration
+ * Throws with a list of every problem found so the whole file can be fixed at once
+ */
+export function loadScheduleConfig(): ScheduleConfig {
+  if (!existsSync(SCHEDULE_CONFIG_PATH)) {
+    throw new Error(
+      `Missing schedule.json file.\n\n` +
+      `Please create ${SCHEDULE_CONFIG_PATH} with your timetable settings.\n` +
+      `See config/schedule.json.example for the required format.`
+    );
+  }
+
+  const raw = readConfigFile(SCHEDULE_CONFIG_PATH);
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid ${SCHEDULE_CONFIG_PATH}: expected a JSON object`);
+  }
+
+  const provider = raw.provider ?? 'tahvel';
+  if (provider !== 'tahvel' && provider !== 'ics') {
+    errors.push('"provider" must be either "tahvel" or "ics"');
+  }
+
+  const tahvel = raw.tahvel;
+  if (provider === 'tahvel' || tahvel !== undefined) {
+    if (!tahvel || typeof tahvel !== 'object') {
+      errors.push('"tahvel" must be an object with schoolId, teacherIds and lang');
+    } else {
+      if (!Number.isInteger(tahvel.schoolId) || tahvel.schoolId <= 0) {
+        errors.push('"tahvel.schoolId" must be a positive integer');
+      }
+      if (!Array.isArray(tahvel.teacherIds) || tahvel.teacherIds.length === 0 ||
+          !tahvel.teacherIds.every((id: unknown) => typeof id === 'string' && id.trim() !== '')) {
+        errors.push('"tahvel.teacherIds" must be a non-empty array of teacher ID strings');
+      }
+      if (tahvel.lang !== undefined && (typeof tahvel.lang !== 'string' || !/^[A-Z]{2}$/.test(tahvel.lang))) {
+        errors.push('"tahvel.lang" must be a two-letter language code such as "ET" or "EN"');
+      }
+    }
+  }
+
+  const ics = raw.ics;
+  if (provider === 'ics' || ics !== undefined) {
+    if (!ics || typeof ics !== 'object') {
+      errors.push('"ics" must be an object with a source file path or URL');
+    } else {
+      if (typeof ics.source !== 'string' || ics.source.trim() === '') {
+        errors.push('"ics.source" must be a file path or URL');
+      }
+      if (ics.groupPattern !== undefined) {
+        try {
+          new RegExp(ics.groupPattern);
+        } catch (error: any) {
+          errors.push(`"ics.groupPattern" is not a valid regular expression: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  const schoolWide = raw.schoolWideEvents;
+  if (schoolWide !== undefined) {
+    if (!schoolWide || typeof schoolWide !== 'object') {
+      errors.push('"schoolWideEvents" must be an object with minGroups and allowSubjects');
+    } else {
+      if (schoolWide.minGroups !== undefined && (!Number.isInteger(schoolWide.minGroups) || schoolWide.minGroups < 2)) {
+        errors.push('"schoolWideEvents.minGroups" must be an integer of at least 2');
+      }
+      if (schoolWide.allowSubjects !== undefined && (!Array.isArray(schoolWide.allowSubjects) ||
+          !schoolWide.allowSubjects.every((subject: unknown) => typeof subject === 'string'))) {
+        errors.push('"schoolWideEvents.allowSubjects" must be an array of strings');
+      }
+    }
+  }
+
+  if (!isValidDate(raw.from)) {
+    errors.push('"from" must be a date in YYYY-MM-DD format');
+  }
+  if (raw.to !== undefined && raw.to !== null && !isValidDate(raw.to)) {
+    errors.push('"to" must be a date in YYYY-MM-DD format (or omitted)');
+  }
+  if (raw.daysAhead !== undefined && (!Number.isInteger(raw.daysAhead) || raw.daysAhead < 0)) {
+    errors.push('"daysAhead" must be a non-negative integer');
+  }
+  if (isValidDate(raw.from) && isValidDate(raw.to) && raw.to < raw.from) {
+    errors.push('"to" must not be earlier than "from"');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${SCHEDULE_CONFIG_PATH}:\n` +
+      errors.map(e => `  - ${e}`).join('\n') +
+      `\n\nSee config/schedule.json.example for the required format.`
+    );
+  }
+
+  return {
+    provider,
+    tahvel: tahvel ? {
+      schoolId: tahvel.schoolId,
+      teacherIds: tahvel.teacherIds.map((id: string) => id.trim()),
+      lang: tahvel.lang || 'ET'
+    } : undefined,
+    ics: ics ? {
+      source: ics.source.trim(),
+      groupPattern: ics.groupPattern || DEFAULT_ICS_GROUP_PATTERN
+    } : undefined,
+    schoolWideEvents: {
+      minGroups: schoolWide?.minGroups ?? 4,
+      allowSubjects: schoolWide?.allowSubjects ?? []
+    },
+    from: raw.from,
+    to: raw.to || undefined,
+    daysAhead: raw.daysAhead ?? 2
+  };
+}
+
+/**
+ * Resolve the schedule date window from config and optional command line overrides
+ */
+export function resolveDateWindow(
+  config: ScheduleConfig,
+  overrides: { from?: string; to?: string } = {}
+): DateWindow {
+  if (overrides.from !== undefined && !isValidDate(overrides.from)) {
+    throw new Error(`Invalid --from value "${overrides.from}": expected YYYY-MM-DD`);
+  }
+  if (overrides.to !== undefined && !isValidDate(overrides.to)) {
+    throw new Error(`Invalid --to value "${overrides.to}": expected YYYY-MM-DD`);
+  }
+
+  const from = overrides.from || config.from;
+  let to = overrides.to || config.to;
+  if (!to) {
+    const futureDate = new Date();
+    futureDate.setDate(futureDate.getDate() + config.daysAhead);
+    to = formatLocalDate(futureDate);
+  }
+
+  if (to < from) {
+    throw new Error(`Invalid date window: ${from} is after ${to}`);
+  }
+
+  return { from, to };
+}
+
+/**
+ * Load recording scanner configuration
+ * The file is optional; without it the Zoom default folder is scanned
+ */
+export function loadRecordingsConfig(): RecordingsConfig {
+  const raw = existsSync(RECORDINGS_CONFIG_PATH) ? readConfigFile(RECORDINGS_CONFIG_PATH) : {};
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid ${RECORDINGS_CONFIG_PATH}: expected a JSON object`);
+  }
+
+  if (raw.roots !== undefined && (!Array.isArray(raw.roots) || raw.roots.length === 0 ||
+      !raw.roots.every((root: unknown) => typeof root === 'string' && root.trim() !== ''))) {
+    errors.push('"roots" must be a non-empty array of directory paths');
+  }
+
+  const folderPatterns: RegExp[] = [];
+  if (raw.folderPatterns !== undefined && (!Array.isArray(raw.folderPatterns) || raw.folderPatterns.length === 0)) {
+    errors.push('"folderPatterns" must be a non-empty array of regular expressions');
+  } else {
+    (raw.folderPatterns ?? [DEFAULT_FOLDER_PATTERN]).forEach((pattern: unknown, index: number) => {
+      if (typeof pattern !== 'string') {
+        errors.push(`"folderPatterns[${index}]" must be a string`);
+        return;
+      }
+      try {
+        const regex = new RegExp(pattern);
+        if (!pattern.includes('(?<date>') &&
+            !['(?<year>', '(?<month>', '(?<day>'].every(group => pattern.includes(group))) {
+          errors.push(`"folderPatterns[${index}]" must capture a "date" group or "year", "month" and "day" groups`);
+        }
+        folderPatterns.push(regex);
+      } catch (error: any) {
+        errors.push(`"folderPatterns[${index}]" is not a valid regular expression: ${error.message}`);
+      }
+    });
+  }
+
+  if (raw.extensions !== undefined && (!Array.isArray(raw.extensions) || raw.extensions.length === 0 ||
+      !raw.extensions.every((ext: unknown) => typeof ext === 'string' && /^\.?[A-Za-z0-9]+$/.test(ext)))) {
+    errors.push('"extensions" must be a non-empty array of file extensions such as ".mp4"');
+  }
+
+  if (raw.looseFiles !== undefined && typeof raw.looseFiles !== 'boolean') {
+    errors.push('"looseFiles" must be true or false');
+  }
+
+  if (raw.startToleranceMinutes !== undefined && (!Number.isInteger(raw.startToleranceMinutes) || raw.startToleranceMinutes < 0)) {
+    errors.push('"startToleranceMinutes" must be a non-negative integer');
+  }
+
+  if (raw.minCoveragePercent !== undefined && (typeof raw.minCoveragePercent !== 'number' ||
+      raw.minCoveragePercent < 0 || raw.minCoveragePercent > 100)) {
+    errors.push('"minCoveragePercent" must be a number from 0 to 100');
+  }
+
+  const silenceTrim = { ...DEFAULT_SILENCE_TRIM, ...(raw.silenceTrim ?? {}) };
+  errors.push(...validateSilenceTrim(silenceTrim, 'silenceTrim.'));
+
+  // Fields left out of a profile are taken from the built-in Zoom profile
+  const ocrProfiles: OcrProfile[] = [];
+  if (raw.ocrProfiles !== undefined && (!Array.isArray(raw.ocrProfiles) || raw.ocrProfiles.length === 0)) {
+    errors.push('"ocrProfiles" must be a non-empty array of profiles');
+  } else {
+    (raw.ocrProfiles ?? [DEFAULT_OCR_PROFILE]).forEach((profile: any, index: number) => {
+      const merged = {
+        ...DEFAULT_OCR_PROFILE,
+        ...profile,
+        region: { ...DEFAULT_OCR_PROFILE.region, ...(profile?.region ?? {}) }
+      };
+      const profileErrors = validateOcrProfile(merged, `ocrProfiles[${index}].`);
+      if (ocrProfiles.some(p => p.name === merged.name)) {
+        profileErrors.push(`"ocrProfiles[${index}].name" "${merged.name}" is used by another profile`);
+      }
+      errors.push(...profileErrors);
+      ocrProfiles.push(merged);
+    });
+  }
+
+  const rootOcrProfiles: { [root: string]: string } = {};
+  if (raw.rootOcrProfiles !== undefined && (typeof raw.rootOcrProfiles !== 'object' || Array.isArray(raw.rootOcrProfiles))) {
+    errors.push('"rootOcrProfiles" must map recording roots to profile names');
+  } else {
+    for (const [root, name] of Object.entries(raw.rootOcrProfiles ?? {})) {
+      if (!ocrProfiles.some(profile => profile.name === name)) {
+        errors.push(`"rootOcrProfiles" maps "${root}" to "${name}", which is not in "ocrProfiles"`);
+      }
+      rootOcrProfiles[expandHomePath(root.trim()).replace(/\/+$/, '')] = name as string;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${RECORDINGS_CONFIG_PATH}:\n` +
+      errors.map(e => `  - ${e}`).join('\n') +
+      `\n\nSee config/recordings.json.example for the required format.`
+    );
+  }
+
+  const roots: string[] = raw.roots ?? DEFAULT_RECORDING_ROOTS;
+  const extensions: string[] = raw.extensions ?? DEFAULT_VIDEO_EXTENSIONS;
+
+  return {
+    roots: roots.map(root => expandHomePath(root.trim()).replace(/\/+$/, '')),
+    folderPatterns,
+    extensions: extensions.map(ext => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase()),
+    looseFiles: raw.looseFiles ?? true,
+    startToleranceMinutes: raw.startToleranceMinutes ?? 30,
+    minCoveragePercent: raw.minCoveragePercent ?? 80,
+    silenceTrim,
+    ocrProfiles,
+    rootOcrProfiles
+  };
+}
+
+/**
+ * Check silence trim settings (from config/recordings.json or a dashboard request)
+ * Returns one message per invalid field; `prefix` is prepended to the field names
+ */
+export function validateSilenceTrim(settings: any, prefix = ''): string[] {
+  const errors: string[] = [];
+  if (typeof settings.noiseDb !== 'number' || settings.noiseDb >= 0) {
+    errors.push(`"${prefix}noiseDb" must be a negative number of dB, e.g. -30`);
+  }
+  if (typeof settings.minSilenceSeconds !== 'number' || settings.minSilenceSeconds <= 0) {
+    errors.push(`"${prefix}minSilenceSeconds" must be a positive number`);
+  }
+  if (typeof settings.paddingSeconds !== 'number' || settings.paddingSeconds < 0) {
+    errors.push(`"${prefix}paddingSeconds" must be zero or a positive number`);
+  } else if (settings.paddingSeconds * 2 >= settings.minSilenceSeconds) {
+    errors.push(`"${prefix}paddingSeconds" must be less than half of "${prefix}minSilenceSeconds", or nothing would be cut`);
+  }
+  return errors;
+}
+
+/**
+ * Check an OCR profile from config/recordings.json
+ * Returns one message per invalid field; `prefix` is prepended to the field names
+ */
+function validateOcrProfile(profile: any, prefix: string): string[] {
+  const errors: string[] = [];
+  if (typeof profile.name !== 'string' || profile.name.trim() === '') {
+    errors.push(`"${prefix}name" must be a non-empty string`);
+  }
+
+  const region = profile.region;
+  if (!OCR_ANCHORS.includes(region.anchor)) {
+    errors.push(`"${prefix}region.anchor" must be one of ${OCR_ANCHORS.join(', ')}`);
+  }
+  if (region.unit !== 'px' && region.unit !== 'fraction') {
+    errors.push(`"${prefix}region.unit" must be "px" or "fraction"`);
+  }
+  const maximum = region.unit === 'fraction' ? 1 : Infinity;
+  for (const field of ['width', 'height']) {
+    if (typeof region[field] !== 'number' || region[field] <= 0 || region[field] > maximum) {
+      errors.push(`"${prefix}region.${field}" must be a positive number${region.unit === 'fraction' ? ' up to 1' : ''}`);
+    }
+  }
+  for (const field of ['marginX', 'marginY']) {
+    if (typeof region[field] !== 'number' || region[field] < 0 || region[field] >= maximum) {
+      errors.push(`"${prefix}region.${field}" must be zero or a positive number${region.unit === 'fraction' ? ' below 1' : ''}`);
+    }
+  }
+
+  if (typeof profile.scale !== 'number' || profile.scale < 1 || profile.scale > 8) {
+    errors.push(`"${prefix}scale" must be a number from 1 to 8`);
+  }
+  if (!Number.isInteger(profile.psm) || profile.psm < 0 || profile.psm > 13) {
+    errors.push(`"${prefix}psm" must be a tesseract page segmentation mode (0-13)`);
+  }
+  if (!Array.isArray(profile.cleanup)) {
+    errors.push(`"${prefix}cleanup" must be an array of { "pattern", "replacement" } rules`);
+  } else {
+    profile.cleanup.forEach((rule: any, index: number) => {
+      if (typeof rule?.pattern !== 'string' || typeof rule?.replacement !== 'string') {
+        errors.push(`"${prefix}cleanup[${index}]" must have a "pattern" and a "replacement" string`);
+        return;
+      }
+      try {
+        new RegExp(rule.pattern, 'g');
+      } catch (error: any) {
+        errors.push(`"${prefix}cleanup[${index}].pattern" is not a valid regular expression: ${error.message}`);
+      }
+    });
+  }
+  return errors;
+}
@@ -0,0 +1,253 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+const DIGIT_TEMPLATES_PATH = 'data/digit-templates.json';
+const GLYPH_WIDTH = 10;               // Every glyph is resampled to this grid before comparing
+const GLYPH_HEIGHT = 16;
+const MAX_SAMPLES_PER_CHARACTER = 10; // Oldest samples are dropped beyond this
+const MAX_GLYPH_DISTANCE = 0.2;       // A glyph further from every template is unknown, and the read is left to tesseract
+const SPACE_MIN_GAP = 0.6;            // A gap between glyphs at least this many line heights wide is a space
+
+/**
+ * An 8-bit grayscale image (ffmpeg's PGM output)
+ */
+export interface GrayImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;   // Row by row, 0 = black
+}
+
+// Feature vectors of the confirmed samples of each character
+export interface GlyphTemplates {
+  [character: string]: number[][];
+}
+
+// Templates per OCR profile, as different layouts use different fonts (data/digit-templates.json)
+export interface DigitTemplateStore {
+  [profileName: string]: GlyphTemplates;
+}
+
+export interface RecognizedText {
+  text: string;
+  confidence: number;   // 1 - distance of the least certain glyph
+}
+
+/**
+ * Load the trained templates (empty before the first training)
+ */
+export function loadDigitTemplates(): DigitTemplateStore {
+  if (!existsSync(DIGIT_TEMPLATES_PATH)) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(DIGIT_TEMPLATES_PATH, 'utf-8'));
+  } catch (error) {
+    return {};
+  }
+}
+
+export function saveDigitTemplates(store: DigitTemplateStore) {
+  writeFileSync(DIGIT_TEMPLATES_PATH, JSON.stringify(store));
+}
+
+/**
+ * Read a binary PGM (P5) file as written by ffmpeg
+ */
+export function readPgm(data: Uint8Array): GrayImage {
+  // Header: "P5", width, height and maximum value, separated by whitespace, with optional # comments
+  const fields: string[] = [];
+  let position = 0;
+  while (fields.length < 4 && position < data.length) {
+    const char = String.fromCharCode(data[position]);
+    if (char === '#') {
+      while (position < data.length && data[position] !== 0x0a) position++;
+    } else if (/\s/.test(char)) {
+      position++;
+    } else {
+      let field = '';
+      while (position < data.length && !/\s/.test(String.fromCharCode(data[position]))) {
+        field += String.fromCharCode(data[position++]);
+      }
+      fields.push(field);
+    }
+  }
+  const [magic, width, height, maxValue] = [fields[0], ...fields.slice(1).map(Number)];
+  if (magic !== 'P5' || !width || !height || maxValue !== 255) {
+    throw new Error('Not an 8-bit binary PGM image');
+  }
+
+  position++; // Single whitespace after the header
+  const pixels = data.subarray(position, position + width * height);
+  if (pixels.length < width * height) {
+    throw new Error('Truncated PGM image');
+  }
+  return { width, height, pixels };
+}
+
+// Threshold that best separates dark and light pixels (Otsu's method)
+function otsuThreshold(pixels: Uint8Array): number {
+  const histogram = new Array(256).fill(0);
+  pixels.forEach(value => histogram[value]++);
+
+  const total = pixels.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let best = { threshold: 127, variance: -1 };
+  for (let threshold = 0; threshold < 256; threshold++) {
+    backgroundCount += histogram[threshold];
+    backgroundSum += threshold * histogram[threshold];
+    const foregroundCount = total - backgroundCount;
+    if (backgroundCount === 0 || foregroundCount === 0) {
+      continue;
+    }
+    const meanDifference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * meanDifference * meanDifference;
+    if (variance > best.variance) {
+      best = { threshold, variance };
+    }
+  }
+  return best.threshold;
+}
+
+/**
+ * Split a text line into glyph feature vectors
+ * Text pixels are whichever side of the threshold is rarer, so light-on-dark and dark-on-light overlays both work.
+ * Only the band of rows holding most of the text is used, which drops the box border and stray pixels.
+ */
+function segmentGlyphs(image: GrayImage): { features: number[][]; spaceBefore: boolean[] } {
+  const { width, height, pixels } = image;
+  const threshold = otsuThreshold(pixels);
+  const darkCount = pixels.reduce((count, value) => count + (value <= threshold ? 1 : 0), 0);
+  const textIsDark = darkCount < pixels.length / 2;
+  const isText = (x: number, y: number) => (pixels[y * width + x] <= threshold) === textIsDark;
+
+  // Text line: the run of rows with text pixels that holds the most of them
+  const rowCounts = Array.from({ length: height }, (_, y) => {
+    let count = 0;
+    for (let x = 0; x < width; x++) if (isText(x, y)) count++;
+    return count;
+  });
+  let line = { top: 0, bottom: -1, total: 0 };
+  for (let y = 0; y < height;) {
+    if (rowCounts[y] === 0) {
+      y++;
+      continue;
+    }
+    const top = y;
+    let total = 0;
+    while (y < height && rowCounts[y] > 0) total += rowCounts[y++];
+    if (total > line.total) {
+      line = { top, bottom: y - 1, total };
+    }
+  }
+  const lineHeight = line.bottom - line.top + 1;
+  if (lineHeight < 4) {
+    return { features: [], spaceBefore: [] };
+  }
+
+  // Glyphs: runs of columns with text pixels within the line
+  const columnHasText = Array.from({ length: width }, (_, x) => {
+    for (let y = line.top; y <= line.bottom; y++) if (isText(x, y)) return true;
+    return false;
+  });
+  const boxes: { left: number; right: number }[] = [];
+  for (let x = 0; x < width;) {
+    if (!columnHasText[x]) {
+      x++;
+      continue;
+    }
+    const left = x;
+    while (x < width && columnHasText[x]) x++;
+    if (x - left >= 2) {
+      boxes.push({ left, right: x - 1 });
+    }
+  }
+
+  const spaceBefore = boxes.map((box, i) => i > 0 && box.left - boxes[i - 1].right - 1 >= lineHeight * SPACE_MIN_GAP);
+
+  const features = boxes.map(box => {
+    const boxWidth = box.right - box.left + 1;
+    const feature: number[] = [];
+    // Share of text pixels in each cell of the grid laid over the glyph (full line height, so ":" and "-" keep their place)
+    for (let gy = 0; gy < GLYPH_HEIGHT; gy++) {
+      const y0 = line.top + Math.floor(gy * lineHeight / GLYPH_HEIGHT);
+      const y1 = Math.max(y0 + 1, line.top + Math.floor((gy + 1) * lineHeight / GLYPH_HEIGHT));
+      for (let gx = 0; gx < GLYPH_WIDTH; gx++) {
+        const x0 = box.left + Math.floor(gx * boxWidth / GLYPH_WIDTH);
+        const x1 = Math.max(x0 + 1, box.left + Math.floor((gx + 1) * boxWidth / GLYPH_WIDTH));
+        let count = 0;
+        for (let y = y0; y < y1; y++) for (let x = x0; x < x1; x++) if (isText(x, y)) count++;
+        feature.push(count / ((y1 - y0) * (x1 - x0)));
+      }
+    }
+    // Stretching hides how narrow a glyph is ("1" vs "0"), so its proportions are a feature of their own
+    feature.push(boxWidth / lineHeight);
+    return feature;
+  });
+
+  return { features, spaceBefore };
+}
+
+// Mean absolute difference between two feature vectors
+function featureDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+}
+
+/**
+ * Read a text line by matching every glyph against the trained templates
+ * Returns null when there are no templates or a glyph matches none of them well enough
+ */
+export function recognizeText(image: GrayImage, templates: GlyphTemplates | undefined): RecognizedText | null {
+  if (!templates || Object.keys(templates).length === 0) {
+    return null;
+  }
+  const { features, spaceBefore } = segmentGlyphs(image);
+  if (features.length === 0) {
+    return null;
+  }
+
+  let text = '';
+  let worstDistance = 0;
+  for (const [i, feature] of features.entries()) {
+    let best = { character: '', distance: Infinity };
+    for (const [character, samples] of Object.entries(templates)) {
+      for (const sample of samples) {
+        const distance = featureDistance(feature, sample);
+        if (distance < best.distance) {
+          best = { character, distance };
+        }
+      }
+    }
+    if (best.distance > MAX_GLYPH_DISTANCE) {
+      return null;
+    }
+    worstDistance = Math.max(worstDistance, best.distance);
+    text += (spaceBefore[i] ? ' ' : '') + best.character;
+  }
+
+  return { text, confidence: 1 - worstDistance };
+}
+
+/**
+ * Learn the glyphs of an image whose text is known (e.g. "2025-10-14 10:07:03")
+ * Throws when the image does not split into as many glyphs as the text has characters (spaces aside)
+ * Returns the characters learned
+ */
+export function addTrainingSample(templates: GlyphTemplates, image: GrayImage, text: string): string[] {
+  const characters = [...text.replace(/\s+/g, '')];
+  const { features } = segmentGlyphs(image);
+  if (features.length !== characters.length) {
+    throw new Error(`The image has ${features.length} glyphs but "${text}" has ${characters.length} characters`);
+  }
+
+  characters.forEach((character, i) => {
+    const samples = templates[character] || (templates[character] = []);
+    samples.push(features[i].map(value => Math.round(value * 1000) / 1000));
+    if (samples.length > MAX_SAMPLES_PER_CHARACTER) {
+      samples.shift();
+    }
+  });
+  return [...new Set(characters)];
+}
@@ -0,0 +1,45 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+const EXEMPTIONS_PATH = 'data/exemptions.json';
+
+/**
+ * Lessons that are not expected to have a recording (cancelled lessons, holidays, exams, practice days)
+ * Covers every date from "from" to "to" inclusive, for one group or for all groups
+ */
+export interface Exemption {
+  id: string;
+  from: string;           // YYYY-MM-DD
+  to: string;             // YYYY-MM-DD, same as "from" for a single day
+  studentGroup?: string;  // Omitted = all groups
+  reason: string;
+  createdAt: string;
+}
+
+/**
+ * Load exemptions (empty when none were made yet)
+ */
+export function loadExemptions(): Exemption[] {
+  if (!existsSync(EXEMPTIONS_PATH)) {
+    return [];
+  }
+  try {
+    return JSON.parse(readFileSync(EXEMPTIONS_PATH, 'utf-8')) || [];
+  } catch (error: any) {
+    throw new Error(`Could not parse ${EXEMPTIONS_PATH}: ${error.message}`);
+  }
+}
+
+export function saveExemptions(exemptions: Exemption[]) {
+  writeFileSync(EXEMPTIONS_PATH, JSON.stringify(exemptions, null, 2));
+}
+
+/**
+ * Find the exemption covering a group's lesson on a date, if any
+ * Group-specific exemptions win over ones that apply to all groups
+ */
+export function findExemption(exemptions: Exemption[], date: string, studentGroup: string): Exemption | undefined {
+  const covering = exemptions.filter(e =>
+    e.from <= date && date <= e.to && (!e.studentGroup || e.studentGroup === studentGroup)
+  );
+  return covering.find(e => e.studentGroup) || covering[0];
+}
@@ -0,0 +1,166 @@
+import { existsSync, readFileSync, statSync, writeFileSync } from 'fs';
+
+const SAMPLE_BYTES = 64 * 1024;   // Read at the start, middle and end of a file
+const LEGACY_HEAD_BYTES = 300;    // What the path-keyed caches hashed before fingerprints
+
+/**
+ * Cache file layout: entries keyed by content fingerprint, so a moved or renamed file keeps its entry
+ * The paths index (path → fingerprint) serves lookups that must not read the file, such as listings
+ */
+export interface FingerprintCache<T> {
+  version: 2;
+  entries: { [fingerprint: string]: T & { path: string } };   // path: where the file was last seen
+  paths: { [path: string]: string };
+  legacy: { [path: string]: T & { hash?: string } };          // Path-keyed entries of files not seen since the upgrade
+}
+
+// Turns the JSON of a cache file from before fingerprints into its entries by path
+export type LegacyReader<T> = (json: any) => { [path: string]: T & { hash?: string } };
+
+// Fingerprints of unchanged files (same size and modification time) are not computed again
+const fingerprintMemo = new Map<string, { size: number; mtimeMs: number; fingerprint: string }>();
+
+/**
+ * Content fingerprint of a file: its size plus an xxHash3 of samples from its start, middle and end
+ * Unlike a hash of the header alone, recordings with identical headers (same camera, same settings) get different
+ * fingerprints; the file name is not part of it. Returns null for missing or unreadable files.
+ */
+export async function fingerprintFile(filePath: string): Promise<string | null> {
+  try {
+    const { size, mtimeMs } = statSync(filePath);
+    const memo = fingerprintMemo.get(filePath);
+    if (memo && memo.size === size && memo.mtimeMs === mtimeMs) {
+      return memo.fingerprint;
+    }
+
+    const file = Bun.file(filePath);
+    const middle = Math.max(0, Math.floor(size / 2 - SAMPLE_BYTES / 2));
+    const samples = await Promise.all([
+      file.slice(0, SAMPLE_BYTES).arrayBuffer(),
+      file.slice(middle, middle + SAMPLE_BYTES).arrayBuffer(),
+      file.slice(Math.max(0, size - SAMPLE_BYTES), size).arrayBuffer()
+    ]);
+    const combined = new Uint8Array(samples.reduce((total, sample) => total + sample.byteLength, 0));
+    samples.reduce((offset, sample) => {
+      combined.set(new Uint8Array(sample), offset);
+      return offset + sample.byteLength;
+    }, 0);
+
+    const fingerprint = `${size}-${Bun.hash.xxHash3(combined).toString(16)}`;
+    fingerprintMemo.set(filePath, { size, mtimeMs, fingerprint });
+    return fingerprint;
+  } catch (error) {
+    return null;
+  }
+}
+
+// xxHash3 of the first 300 bytes, as stored in the `hash` field of legacy entries
+async function legacyHeadHash(filePath: string): Promise<string | null> {
+  try {
+    const buffer = await Bun.file(filePath).slice(0, LEGACY_HEAD_BYTES).arrayBuffer();
+    return Bun.hash.xxHash3(buffer).toString();
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Load a cache file; one from before fingerprints is read with `readLegacy` and all its entries are kept as legacy
+ */
+export function loadFingerprintCache<T>(filePath: string, readLegacy: LegacyReader<T>): FingerprintCache<T> {
+  const empty: FingerprintCache<T> = { version: 2, entries: {}, paths: {}, legacy: {} };
+  if (!existsSync(filePath)) {
+    return empty;
+  }
+  try {
+    const json = JSON.parse(readFileSync(filePath, 'utf-8'));
+    if (json?.version === 2) {
+      return { ...empty, ...json };
+    }
+    return { ...empty, legacy: readLegacy(json) || {} };
+  } catch (error) {
+    return empty;
+  }
+}
+
+export function saveFingerprintCache<T>(filePath: string, cache: FingerprintCache<T>) {
+  writeFileSync(filePath, JSON.stringify(cache, null, 2));
+}
+
+/**
+ * The entry of a file's current content
+ * A legacy entry of the path is upgraded when its header hash still matches (or it has none, as for manual marks);
+ * save the cache afterwards to keep the upgrade
+ */
+export async function lookupEntry<T>(cache: FingerprintCache<T>, filePath: string, fingerprint?: string | null): Promise<(T & { path: string }) | null> {
+  const key = fingerprint === undefined ? await fingerprintFile(filePath) : fingerprint;
+  if (!key) {
+    return null;
+  }
+  const entry = cache.entries[key];
+  if (entry) {
+    if (cache.paths[filePath] !== key) {
+      cache.paths[filePath] = key;  // Moved, renamed or copied
+      entry.path = filePath;
+    }
+    return entry;
+  }
+
+  const legacy = cache.legacy[filePath];
+  if (legacy && (legacy.hash === undefined || legacy.hash === await legacyHeadHash(filePath))) {
+    const { hash, ...value } = legacy;
+    delete cache.legacy[filePath];
+    return setEntry(cache, key, filePath, value as T);
+  }
+  return null;
+}
+
+/**
+ * The entry last seen at a path, without reading the file (its content may have changed since)
+ */
+export function entryAtPath<T>(cache: FingerprintCache<T>, filePath: string): (T & { path: string }) | null {
+  const fingerprint = cache.paths[filePath];
+  return (fingerprint && cache.entries[fingerprint]) || null;
+}
+
+export function setEntry<T>(cache: FingerprintCache<T>, fingerprint: string, filePath: string, value: T): T & { path: string } {
+  const entry = { ...value, path: filePath };
+  cache.entries[fingerprint] = entry;
+  cache.paths[filePath] = fingerprint;
+  delete cache.legacy[filePath];
+  return entry;
+}
+
+/**
+ * Remove the entry of the content last seen at a path (from every path it was seen at)
+ */
+export function deleteEntryAtPath<T>(cache: FingerprintCache<T>, filePath: string) {
+  const fingerprint = cache.paths[filePath];
+  if (fingerprint) {
+    delete cache.entries[fingerprint];
+    Object.keys(cache.paths).filter(p => cache.paths[p] === fingerprint).forEach(p => delete cache.paths[p]);
+  }
+  delete cache.legacy[filePath];
+}
+
+/**
+ * Point the path index at files found at new paths (moved or renamed outside the dashboard)
+ * Returns whether anything changed
+ */
+export async function relinkPaths<T>(cache: FingerprintCache<T>, filePaths: string[]): Promise<boolean> {
+  let changed = false;
+  for (const filePath of filePaths) {
+    const before = cache.paths[filePath];
+    const hadLegacy = filePath in cache.legacy;
+    await lookupEntry(cache, filePath);
+    changed = changed || cache.paths[filePath] !== before || (hadLegacy && !(filePath in cache.legacy));
+  }
+  // Paths whose file is gone or now has other content drop out of the index
+  for (const [filePath, fingerprint] of Object.entries(cache.paths)) {
+    if (cache.entries[fingerprint]?.path !== filePath && !existsSync(filePath)) {
+      delete cache.paths[filePath];
+      changed = true;
+    }
+  }
+  return changed;
+}
@@ -0,0 +1,67 @@
+const DEFAULT_RETRIES = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_RETRY_AFTER_MS = 60 * 1000;  // A longer Retry-After is shortened to this
+
+/**
+ * Non-transient HTTP failure (e.g. 400, 404), thrown without retrying
+ */
+export class HttpError extends Error {
+  constructor(readonly status: number, readonly url: string) {
+    super(`HTTP error! status: ${status}`);
+    this.name = 'HttpError';
+  }
+}
+
+// Status codes worth retrying: timeouts, rate limiting and server-side failures
+function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Delay before the next attempt: Retry-After header (seconds or HTTP date, capped) if present, else exponential backoff
+function getRetryDelay(attempt: number, response?: Response): number {
+  const retryAfter = response?.headers.get('Retry-After');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!isNaN(delay)) {
+      return Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS);
+    }
+  }
+  return BASE_DELAY_MS * Math.pow(2, attempt);
+}
+
+/**
+ * fetch() that retries network errors and transient HTTP failures
+ * Non-transient HTTP errors (e.g. 400, 404) and exhausted retries throw
+ */
+export async function fetchWithRetry(url: string, retries: number = DEFAULT_RETRIES): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | undefined;
+    let failure: string;
+
+    try {
+      response = await fetch(url);
+      if (response.ok) {
+        return response;
+      }
+      if (!isTransientStatus(response.status)) {
+        throw new HttpError(response.status, url);
+      }
+      failure = `HTTP ${response.status}`;
+    } catch (error) {
+      // Non-transient HTTP status thrown above - give up immediately
+      if (error instanceof HttpError) {
+        throw error;
+      }
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    if (attempt >= retries) {
+      throw new Error(`Request failed after ${attempt + 1} attempts (${failure}): ${url}`);
+    }
+
+    const delay = getRetryDelay(attempt, response);
+    console.warn(`⚠️  Request failed (${failure}), retrying in ${Math.round(delay / 1000)}s [${attempt + 1}/${retries}]`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
@@ -0,0 +1,114 @@
+import { afterAll, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { IcsProvider } from './ics-provider';
+
+const dir = mkdtempSync(join(tmpdir(), 'ics-provider-'));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+spyOn(console, 'log').mockImplementation(() => {});
+
+// Floating times (no Z, no TZID) are local time, so the expected times do not depend on the machine's zone
+async function fetchCalendar(events: string[], window = { from: '2025-10-13', to: '2025-10-31' }) {
+  const source = join(dir, `calendar_${Math.random().toString(36).slice(2)}.ics`);
+  writeFileSync(source, ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n'));
+  return new IcsProvider({ source, groupPattern: '(TAK\\d{2})' }).fetchLessons(window);
+}
+
+function event(...lines: string[]): string {
+  return ['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n');
+}
+
+describe('IcsProvider', () => {
+  test('single event with group, subject and room', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:1', 'SUMMARY:TAK24 - Programming', 'LOCATION:A-201', 'DTSTART:20251014T081500', 'DTEND:20251014T094500')
+    ]);
+    expect(lessons).toEqual([
+      { date: '2025-10-14', start: '08:15', end: '09:45', studentGroups: ['TAK24'], subject: 'Programming', room: 'A-201' }
+    ]);
+  });
+
+  test('every group in the summary takes part', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:1', 'SUMMARY:TAK24 & TAK25: Databases', 'DTSTART:20251014T100000', 'DTEND:20251014T113000')
+    ]);
+    expect(lessons.map(l => [l.studentGroups, l.subject])).toEqual([[['TAK24', 'TAK25'], 'Databases']]);
+  });
+
+  test('DURATION instead of DTEND', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:1', 'SUMMARY:TAK24 - Databases', 'DTSTART:20251014T100000', 'DURATION:PT1H30M')
+    ]);
+    expect(lessons.map(l => l.end)).toEqual(['11:30']);
+  });
+
+  test('RRULE weekly with BYDAY and COUNT', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:w', 'SUMMARY:TAK24 - Programming', 'DTSTART:20251013T081500', 'DTEND:20251013T094500',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3')
+    ]);
+    expect(lessons.map(l => l.date)).toEqual(['2025-10-13', '2025-10-15', '2025-10-20']);
+  });
+
+  test('RRULE daily with INTERVAL and UNTIL', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:d', 'SUMMARY:TAK24 - Practice', 'DTSTART:20251013T120000', 'DTEND:20251013T130000',
+        'RRULE:FREQ=DAILY;INTERVAL=2;UNTIL=20251019')
+    ]);
+    expect(lessons.map(l => l.date)).toEqual(['2025-10-13', '2025-10-15', '2025-10-17', '2025-10-19']);
+  });
+
+  test('RRULE without an end stops at the date window', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:w', 'SUMMARY:TAK24 - Programming', 'DTSTART:20251001T081500', 'DTEND:20251001T094500', 'RRULE:FREQ=WEEKLY')
+    ]);
+    expect(lessons.map(l => l.date)).toEqual(['2025-10-15', '2025-10-22', '2025-10-29']);
+  });
+
+  test('EXDATE removes occurrences', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:w', 'SUMMARY:TAK24 - Programming', 'DTSTART:20251013T081500', 'DTEND:20251013T094500',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4', 'EXDATE:20251015T081500,20251022T081500')
+    ]);
+    expect(lessons.map(l => l.date)).toEqual(['2025-10-13', '2025-10-20']);
+  });
+
+  test('RECURRENCE-ID replaces the occurrence it overrides', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:w', 'SUMMARY:TAK24 - Programming', 'DTSTART:20251013T081500', 'DTEND:20251013T094500',
+        'RRULE:FREQ=WEEKLY;COUNT=3'),
+      event('UID:w', 'SUMMARY:TAK24 - Programming', 'RECURRENCE-ID:20251020T081500',
+        'DTSTART:20251021T100000', 'DTEND:20251021T113000')
+    ]);
+    expect(lessons.map(l => `${l.date} ${l.start}-${l.end}`)).toEqual([
+      '2025-10-13 08:15-09:45',
+      '2025-10-21 10:00-11:30',
+      '2025-10-27 08:15-09:45'
+    ]);
+  });
+
+  test('cancelled, all-day and groupless events are skipped', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:1', 'SUMMARY:TAK24 - Programming', 'STATUS:CANCELLED', 'DTSTART:20251014T081500', 'DTEND:20251014T094500'),
+      event('UID:2', 'SUMMARY:TAK24 - Excursion', 'DTSTART;VALUE=DATE:20251015', 'DTEND;VALUE=DATE:20251016'),
+      event('UID:3', 'SUMMARY:Staff meeting', 'DTSTART:20251016T140000', 'DTEND:20251016T150000')
+    ]);
+    expect(lessons).toEqual([]);
+  });
+
+  test('folded lines', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:1', 'SUMMARY:Programming (TA', ' K24)', 'DTSTART:20251014T081500', 'DTEND:20251014T094500')
+    ]);
+    expect(lessons.map(l => l.studentGroups)).toEqual([['TAK24']]);
+  });
+
+  test('folded lines and escaped text in the subject and room', async () => {
+    const lessons = await fetchCalendar([
+      event('UID:1', 'SUMMARY:TAK24 - Programming\\, part 1', 'LOCATION:A-2', ' 01', 'DTSTART:20251014T081500', 'DTEND:20251014T094500')
+    ]);
+    expect(lessons[0].subject).toBe('Programming, part 1');
+    expect(lessons[0].room).toBe('A-201');
+  });
+});
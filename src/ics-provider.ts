@@ -0,0 +1,399 @@
+import { existsSync, readFileSync } from 'fs';
+import { expandHomePath, formatLocalDate, type DateWindow, type IcsConfig } from './config';
+import type { LessonTime, ScheduleProvider } from './schedule-provider';
+import { fetchWithRetry } from './http';
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Date-time as written in the calendar, before conversion to local time
+interface IcsDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  utc: boolean;          // Value ended with "Z"
+  zone: string | null;   // TZID parameter, if any
+  dateOnly: boolean;     // VALUE=DATE (all-day)
+}
+
+interface IcsEvent {
+  uid: string;
+  summary: string;
+  location: string;
+  status: string;
+  start: IcsDateTime | null;
+  end: IcsDateTime | null;
+  duration: string | null;
+  rrule: string | null;
+  exdates: IcsDateTime[];
+  recurrenceId: IcsDateTime | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_OCCURRENCES = 5000; // Safety limit for open-ended recurrence rules
+
+// Zones that Intl does not know (e.g. Outlook's "FLE Standard Time") are warned about once
+const warnedZones = new Set<string>();
+
+/**
+ * Join folded lines (RFC 5545: continuation lines start with a space or tab)
+ */
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.length > 0);
+}
+
+/**
+ * Parse "NAME;PARAM=value;PARAM2="quoted:value":VALUE" into its parts
+ */
+function parseProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const [name, ...paramParts] = line.substring(0, valueStart).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq > 0) {
+      params[part.substring(0, eq).toUpperCase()] = part.substring(eq + 1).replace(/^"|"$/g, '');
+    }
+  });
+
+  return { name: name.toUpperCase(), params, value: line.substring(valueStart + 1) };
+}
+
+// Undo TEXT value escaping (\n, \, \; \\)
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char) => (char === 'n' || char === 'N') ? '\n' : char);
+}
+
+function parseDateTime(value: string, params: Record<string, string>): IcsDateTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  return {
+    year: parseInt(year),
+    month: parseInt(month),
+    day: parseInt(day),
+    hour: hour ? parseInt(hour) : 0,
+    minute: minute ? parseInt(minute) : 0,
+    second: second ? parseInt(second) : 0,
+    utc: utc === 'Z',
+    zone: params.TZID || null,
+    dateOnly: !hour || params.VALUE === 'DATE'
+  };
+}
+
+// Offset (ms) of a time zone from UTC at the given instant
+function getZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convert a calendar date-time to an absolute Date
+ * UTC values are exact, TZID values are converted from their zone, floating values are local time
+ */
+function toDate(dt: IcsDateTime): Date {
+  if (dt.utc) {
+    return new Date(Date.UTC(dt.year, dt.month - 1, dt.day, dt.hour, dt.minute, dt.second));
+  }
+
+  if (dt.zone) {
+    try {
+      const wallClock = Date.UTC(dt.year, dt.month - 1, dt.day, dt.hour, dt.minute, dt.second);
+      const offset = getZoneOffset(wallClock, dt.zone);
+      let timestamp = wallClock - offset;
+      // Re-check the offset at the resulting instant (matters around DST changes)
+      const correctedOffset = getZoneOffset(timestamp, dt.zone);
+      if (correctedOffset !== offset) {
+        timestamp = wallClock - correctedOffset;
+      }
+      return new Date(timestamp);
+    } catch (error) {
+      if (!warnedZones.has(dt.zone)) {
+        warnedZones.add(dt.zone);
+        console.warn(`⚠️  Unknown time zone "${dt.zone}" in calendar, treating its times as local time`);
+      }
+    }
+  }
+
+  return new Date(dt.year, dt.month - 1, dt.day, dt.hour, dt.minute, dt.second);
+}
+
+// Shift a calendar date-time by whole days, keeping its wall-clock time
+function addDays(dt: IcsDateTime, days: number): IcsDateTime {
+  const shifted = new Date(Date.UTC(dt.year, dt.month - 1, dt.day) + days * DAY_MS);
+  return {
+    ...dt,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate()
+  };
+}
+
+// Parse an ISO 8601 duration (e.g. "PT1H30M") into milliseconds
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((parseInt(weeks || '0') * 7 + parseInt(days || '0')) * 24 * 3600 +
+    parseInt(hours || '0') * 3600 + parseInt(minutes || '0') * 60 + parseInt(seconds || '0')) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function formatLocalTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Parse all VEVENT components of a calendar file
+ */
+function parseEvents(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+  let nestedDepth = 0; // VALARM and other components nested inside VEVENT
+
+  for (const line of unfoldLines(text)) {
+    const prop = parseProperty(line);
+    if (!prop) continue;
+
+    if (prop.name === 'BEGIN') {
+      if (prop.value.toUpperCase() === 'VEVENT') {
+        current = { uid: '', summary: '', location: '', status: '', start: null, end: null, duration: null, rrule: null, exdates: [], recurrenceId: null };
+      } else if (current) {
+        nestedDepth++;
+      }
+      continue;
+    }
+
+    if (prop.name === 'END') {
+      if (prop.value.toUpperCase() === 'VEVENT' && current) {
+        events.push(current);
+        current = null;
+      } else if (current && nestedDepth > 0) {
+        nestedDepth--;
+      }
+      continue;
+    }
+
+    if (!current || nestedDepth > 0) continue;
+
+    switch (prop.name) {
+      case 'UID':
+        current.uid = prop.value;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(prop.value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(prop.value);
+        break;
+      case 'STATUS':
+        current.status = prop.value.toUpperCase();
+        break;
+      case 'DTSTART':
+        current.start = parseDateTime(prop.value, prop.params);
+        break;
+      case 'DTEND':
+        current.end = parseDateTime(prop.value, prop.params);
+        break;
+      case 'DURATION':
+        current.duration = prop.value;
+        break;
+      case 'RRULE':
+        current.rrule = prop.value;
+        break;
+      case 'EXDATE':
+        prop.value.split(',').forEach(value => {
+          const exdate = parseDateTime(value, prop.params);
+          if (exdate) current!.exdates.push(exdate);
+        });
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateTime(prop.value, prop.params);
+        break;
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Expand an event's recurrence rule into individual start times
+ * Supports FREQ=DAILY and FREQ=WEEKLY with INTERVAL, COUNT, UNTIL and BYDAY,
+ * which covers timetable exports from Google Calendar and Outlook
+ */
+function expandOccurrences(event: IcsEvent, lastDate: string): IcsDateTime[] {
+  const start = event.start!;
+  if (!event.rrule) {
+    return [start];
+  }
+
+  const rule: Record<string, string> = {};
+  event.rrule.split(';').forEach(part => {
+    const [key, value] = part.split('=');
+    if (key && value) rule[key.toUpperCase()] = value;
+  });
+
+  const freq = rule.FREQ;
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+    console.warn(`⚠️  Unsupported recurrence FREQ=${freq} for "${event.summary}", using first occurrence only`);
+    return [start];
+  }
+
+  const interval = Math.max(1, parseInt(rule.INTERVAL || '1'));
+  const count = rule.COUNT ? parseInt(rule.COUNT) : Infinity;
+  const until = rule.UNTIL ? parseDateTime(rule.UNTIL, {}) : null;
+  const untilTime = until ? toDate(until.dateOnly ? { ...until, hour: 23, minute: 59, second: 59 } : until).getTime() : Infinity;
+  const startWeekday = new Date(Date.UTC(start.year, start.month - 1, start.day)).getUTCDay();
+  const byDay = (rule.BYDAY || WEEKDAYS[startWeekday])
+    .split(',')
+    .map(day => WEEKDAYS.indexOf(day.replace(/^[+-]?\d+/, '')))
+    .filter(day => day >= 0)
+    .sort((a, b) => a - b);
+
+  const occurrences: IcsDateTime[] = [];
+  const isPastEnd = (dt: IcsDateTime) => {
+    const date = `${dt.year}-${String(dt.month).padStart(2, '0')}-${String(dt.day).padStart(2, '0')}`;
+    return date > lastDate || toDate(dt).getTime() > untilTime;
+  };
+
+  if (freq === 'DAILY') {
+    for (let i = 0; occurrences.length < count && i < MAX_OCCURRENCES; i++) {
+      const occurrence = addDays(start, i * interval);
+      if (isPastEnd(occurrence)) break;
+      occurrences.push(occurrence);
+    }
+    return occurrences;
+  }
+
+  // WEEKLY: walk week by week (weeks start on Monday), emitting each BYDAY weekday
+  const weekStart = addDays(start, -((startWeekday + 6) % 7));
+  for (let week = 0; occurrences.length < count && week < MAX_OCCURRENCES; week += interval) {
+    for (const weekday of byDay) {
+      const occurrence = addDays(weekStart, week * 7 + (weekday + 6) % 7);
+      if (toDate(occurrence).getTime() < toDate(start).getTime()) continue;
+      if (isPastEnd(occurrence) || occurrences.length >= count) {
+        return occurrences;
+      }
+      occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Schedule provider for iCalendar exports (Google Calendar, Outlook, ...)
+ * The student group is taken from the event summary using the configured regex
+ */
+export class IcsProvider implements ScheduleProvider {
+  readonly name = 'iCalendar';
+
+  constructor(private config: IcsConfig) {}
+
+  // Read calendar text from a local file or download it from a URL
+  private async loadCalendar(): Promise<string> {
+    const source = this.config.source.replace(/^webcal:\/\//i, 'https://');
+
+    if (/^https?:\/\//i.test(source)) {
+      const response = await fetchWithRetry(source);
+      return response.text();
+    }
+
+    const filePath = expandHomePath(source);
+    if (!existsSync(filePath)) {
+      throw new Error(`Calendar file not found: ${filePath}`);
+    }
+    return readFileSync(filePath, 'utf-8');
+  }
+
+  async fetchLessons(dateWindow: DateWindow): Promise<LessonTime[]> {
+    console.log(`Reading calendar from ${this.config.source}`);
+
+    const events = parseEvents(await this.loadCalendar());
+    const groupRegex = new RegExp(this.config.groupPattern, 'g');
+
+    // Instances moved or edited individually replace the matching occurrence of the series
+    const overriddenInstances = new Set<string>();
+    events.forEach(event => {
+      if (event.recurrenceId) {
+        overriddenInstances.add(`${event.uid}|${toDate(event.recurrenceId).getTime()}`);
+      }
+    });
+
+    const lessons: LessonTime[] = [];
+    let skippedWithoutGroup = 0;
+
+    for (const event of events) {
+      // Skip cancelled and all-day events (not actual lessons)
+      if (!event.start || event.start.dateOnly || event.status === 'CANCELLED') {
+        continue;
+      }
+
+      // Every group code mentioned in the summary takes part (joint lectures list several)
+      const groupMatches = [...event.summary.matchAll(groupRegex)];
+      if (groupMatches.length === 0) {
+        skippedWithoutGroup++;
+        continue;
+      }
+      const studentGroups = [...new Set(groupMatches.map(match => match[1] || match[0]))];
+      // Subject is the summary without the group codes and the separators around them
+      const subject = groupMatches
+        .reduce((text, match) => text.replace(match[0], ''), event.summary)
+        .replace(/^[\s\-–:,|&/]+|[\s\-–:,|&/]+$/g, '')
+        .trim() || event.summary;
+
+      const durationMs = event.end
+        ? toDate(event.end).getTime() - toDate(event.start).getTime()
+        : parseDuration(event.duration || '') ?? 0;
+      const excluded = new Set(event.exdates.map(exdate => toDate(exdate).getTime()));
+
+      for (const occurrence of expandOccurrences(event, dateWindow.to)) {
+        const startDate = toDate(occurrence);
+        if (excluded.has(startDate.getTime())) continue;
+        if (!event.recurrenceId && overriddenInstances.has(`${event.uid}|${startDate.getTime()}`)) continue;
+
+        const date = formatLocalDate(startDate);
+        if (date < dateWindow.from || date > dateWindow.to) continue;
+
+        lessons.push({
+          date,
+          start: formatLocalTime(startDate),
+          end: formatLocalTime(new Date(startDate.getTime() + durationMs)),
+          studentGroups,
+          subject,
+          room: event.location || undefined
+        });
+      }
+    }
+
+    if (skippedWithoutGroup > 0) {
+      console.log(`Skipped ${skippedWithoutGroup} calendar events without a student group in the summary`);
+    }
+
+    return lessons.sort((a, b) => a.date.localeCompare(b.date) || a.start.localeCompare(b.start));
+  }
+}
@@ -1,13 +1,31 @@
 #!/usr/bin/env bun
 
 import { serve } from 'bun';
-import { readFileSync, existsSync, unlinkSync, statSync, readdirSync, renameSync, appendFileSync } from 'fs';
-import { join } from 'path';
-import { exec } from 'child_process';
+import { readFileSync, existsSync, unlinkSync, statSync, readdirSync, renameSync, appendFileSync, writeFileSync, mkdirSync, rmSync } from 'fs';
+import { dirname, extname, join } from 'path';
+import { exec, execFile, spawn } from 'child_process';
 import { promisify } from 'util';
 import { google } from 'googleapis';
+import { isValidDate, loadRecordingsConfig, validateSilenceTrim, type OcrProfile, type SilenceTrimConfig } from './config';
+import { loadAssignmentOverrides, renameAssignmentOverride, saveAssignmentOverrides } from './assignment-overrides';
+import { loadExemptions, saveExemptions } from './exemptions';
+import { loadScheduleChangeLog } from './schedule-diff';
+import { isVideoFile, loadVideoTimes } from './recording-scanner';
+import { findOverlappingBlocks } from './matcher';
+import { RecordingCatalog, type CatalogChange, type LectureRecording } from './recording-catalog';
+import { buildKeepSegments, buildSelectExpression, parseSilenceDetectOutput } from './silence-trim';
+import { findRecordedLesson, planLessonTrim, secondsToClock } from './lesson-trim';
+import { buildOcrFilter, cleanOcrText, parseClockInput, parseOcrTimestamp, selectOcrProfiles, type OcrAttempt, type OcrTimestamp } from './ocr-timestamp';
+import { addTrainingSample, loadDigitTemplates, readPgm, recognizeText, saveDigitTemplates } from './digit-recognizer';
+import { buildWallClockIndex, summarizeWallClockIndex, type WallClockSample } from './wall-clock-index';
+import { JOB_PRIORITY, JobQueue, type AnalysisJob, type JobContext } from './job-queue';
+import {
+  deleteEntryAtPath, entryAtPath, fingerprintFile, loadFingerprintCache, lookupEntry, relinkPaths, saveFingerprintCache, setEntry,
+  type FingerprintCache
+} from './fingerprint-cache';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 /**
  * Logger class - logs to both console and server.log file with timestamps
@@ -83,6 +101,12 @@ const PORT = 3000;
 const STUDY_GROUPS_PATH = 'config/study-groups.json';
 const MAX_CONCURRENT_VIDEOS = 4; // Limit concurrent video processing to avoid CPU overload
 const MAX_CONCURRENT_FFMPEG = 5; // Global limit for concurrent ffmpeg processes
+const MAX_CONCURRENT_JOBS = 2; // Analysis jobs (metadata extraction, wall-clock indexes) running at once
+const FILE_SETTLE_MS = 30000; // A video not modified for this long is no longer being recorded or copied
+const WALL_CLOCK_SAMPLE_SECONDS = 60; // Default interval between OCR samples of the wall-clock index
+const START_FRAMES = [0, 3, 7, 10, 14]; // Frames tried for the start time (the overlay may appear a few frames late)
+const END_FRAMES_BEFORE_LAST = [0, 3, 7, 10, 14]; // Frames before the last one tried for the end time
+const END_WINDOW_SECONDS = 2; // Decoded before the end of a video, enough for END_FRAMES_BEFORE_LAST from 8 fps up
 
 /**
  * Semaphore for limiting concurrent ffmpeg processes
@@ -140,9 +164,64 @@ const ffmpegSemaphore = new FfmpegSemaphore(MAX_CONCURRENT_FFMPEG);
 
 /**
  * Run ffmpeg command with global concurrency control
+ * With a `signal` (from an analysis job), aborting kills the command
  */
-async function runFfmpeg(command: string, description: string): Promise<{ stdout: string; stderr: string }> {
-  return ffmpegSemaphore.run(() => execAsync(command), description);
+async function runFfmpeg(command: string, description: string, signal?: AbortSignal): Promise<{ stdout: string; stderr: string }> {
+  return ffmpegSemaphore.run(() => execCancellable(command, signal), description);
+}
+
+/**
+ * Run ffmpeg or ffprobe with an argument list instead of a shell command line, for paths that may contain any character
+ * The output is buffered whole (silencedetect logs every silence of a long recording to stderr)
+ */
+async function runFfmpegArgs(program: 'ffmpeg' | 'ffprobe', args: string[], description: string): Promise<{ stdout: string; stderr: string }> {
+  return ffmpegSemaphore.run(() => execFileAsync(program, args, { maxBuffer: 64 * 1024 * 1024 }), description);
+}
+
+/**
+ * Run a shell command that an analysis job can cancel
+ * The command gets its own process group, so aborting kills the whole pipeline (ffmpeg, tesseract, grep)
+ * and not only the shell that started it
+ */
+function execCancellable(command: string, signal?: AbortSignal): Promise<{ stdout: string; stderr: string }> {
+  if (!signal) {
+    return execAsync(command);
+  }
+  if (signal.aborted) {
+    return Promise.reject(new Error('Cancelled'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn('sh', ['-c', command], { detached: true });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => stdout += chunk);
+    child.stderr.on('data', chunk => stderr += chunk);
+
+    const kill = () => {
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch (error) {
+        // Already exited
+      }
+    };
+    signal.addEventListener('abort', kill, { once: true });
+
+    child.on('error', error => {
+      signal.removeEventListener('abort', kill);
+      reject(error);
+    });
+    child.on('close', code => {
+      signal.removeEventListener('abort', kill);
+      if (signal.aborted) {
+        reject(new Error('Cancelled'));
+      } else if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(Object.assign(new Error(`Command failed: ${command}\n${stderr}`), { code, stdout, stderr }));
+      }
+    });
+  });
 }
 
 /**
@@ -159,10 +238,12 @@ setInterval(() => {
 }, 10000);
 
 /**
- * In-memory lock to prevent duplicate video processing
- * Maps video path -> Promise<metadata>
+ * Metadata extractions in progress, by analysis job id -> video path
+ * Every extraction runs in a job, so cancelling the job stops its ffmpeg and tesseract processes
  */
-const processingVideos = new Map<string, Promise<any>>();
+const extractingVideos = new Map<string, string>();
+
+const isExtracting = (videoPath: string) => [...extractingVideos.values()].includes(videoPath);
 
 
 /**
@@ -237,12 +318,75 @@ interface RenameVideoBody {
   newFilename: string;
 }
 
+interface ConcatVideosBody {
+  videos: string[];       // Parts in playback order
+  filename: string;       // Name of the joined file, written next to the first part
+  deleteParts?: boolean;  // Delete the parts once the joined file is verified
+}
+
+interface SilenceTrimBody {
+  videoPath: string;
+  noiseDb?: number;             // Defaults come from config/recordings.json
+  minSilenceSeconds?: number;
+  paddingSeconds?: number;
+}
+
+interface TrimToLessonBody {
+  videoPath: string;
+  inSeconds: number;      // Confirmed in/out points, from the plan or adjusted by the user
+  outSeconds: number;
+}
+
+interface WallClockIndexBody {
+  videoPath: string;
+  intervalSeconds?: number;
+}
+
+interface TrainDigitsBody {
+  videoPath: string;
+  text: string;           // Timestamp as shown at the start of the video, e.g. "2025-10-14 10:07:03"
+}
+
+interface TimestampCorrectionBody {
+  videoPath: string;
+  start: string;          // "YYYY-MM-DD HH:MM[:SS]" of the first frame
+  end?: string;           // "HH:MM[:SS]" of the last frame, empty when unknown
+}
+
+// What to extract again: the timebolt analysis, the OCR timestamps, or everything (both, size and duration)
+type ReprocessKind = 'timebolt' | 'timestamps' | 'metadata';
+
+interface ReprocessBody {
+  kind: ReprocessKind;
+  videoPath?: string;     // One video,
+  date?: string;          // the videos of one lesson (with group),
+  group?: string;         // or every video when none is given
+}
+
+interface CancelJobBody {
+  id: string;
+}
+
 interface UploadVideoBody {
   videoPath: string;
   date: string;
   uploadId?: string;
 }
 
+interface AssignRecordingBody {
+  path: string;           // Recording folder or video file
+  date?: string;
+  studentGroup?: string;
+  notLesson?: boolean;
+}
+
+interface CreateExemptionBody {
+  from: string;
+  to?: string;
+  studentGroup?: string;
+  reason: string;
+}
+
 interface PauseUploadBody {
   videoPath: string;
 }
@@ -266,6 +410,21 @@ interface GoogleDriveFile {
 
 const uploadProgress = new Map<string, UploadProgress>();
 const progressListeners = new Map<string, Set<(data: string) => void>>();
+
+// Dashboard clients listening for live recording changes (/api/events)
+const eventListeners = new Set<(data: string) => void>();
+
+// Silence trim jobs, reported to the dashboard through /api/events
+interface SilenceTrimJob {
+  id: string;
+  videoPath: string;
+  settings: SilenceTrimConfig;
+  status: 'detecting' | 'rendering' | 'complete' | 'error';
+  outputPath?: string;
+  removedSeconds?: number;  // Total length of the cut silences
+  error?: string;
+}
+const silenceTrimJobs = new Map<string, SilenceTrimJob>();
 const cancelledUploads = new Set<string>(); // Track cancelled upload IDs
 const uploadAbortControllers = new Map<string, AbortController>(); // Track AbortControllers for cancellation
 
@@ -277,31 +436,113 @@ interface InterruptedUpload {
   bytesTotal: number;
   studentGroup: string;
   date: string;
+  sharedWith?: string[];  // Groups that get a Drive shortcut once the upload completes
   interruptedAt: string;
 }
 
-// Load interrupted uploads from disk
+// Interrupted uploads by content fingerprint, so a video renamed before resuming keeps its upload session
+function loadInterruptedUploadCache(): FingerprintCache<InterruptedUpload> {
+  return loadFingerprintCache(ACTIVE_UPLOADS_PATH, json => json);
+}
+
+// Load interrupted uploads from disk, by the path each video was last seen at
 function loadInterruptedUploads(): Record<string, InterruptedUpload> {
-  try {
-    const data = loadJSON('data/active-uploads.json');
-    return data || {};
-  } catch (error) {
-    return {};
-  }
+  const uploads = loadInterruptedUploadCache();
+  return {
+    ...uploads.legacy,
+    ...Object.fromEntries(Object.values(uploads.entries).map(({ path, ...state }) => [path, { ...state, videoPath: path }]))
+  };
 }
 
 // Save interrupted upload state
-function saveInterruptedUpload(videoPath: string, state: InterruptedUpload) {
-  const uploads = loadInterruptedUploads();
-  uploads[videoPath] = state;
-  Bun.write('data/active-uploads.json', JSON.stringify(uploads, null, 2));
+async function saveInterruptedUpload(videoPath: string, state: InterruptedUpload) {
+  const fingerprint = await fingerprintFile(videoPath);
+  if (!fingerprint) {
+    return;
+  }
+  const uploads = loadInterruptedUploadCache();
+  setEntry(uploads, fingerprint, videoPath, state);
+  saveFingerprintCache(ACTIVE_UPLOADS_PATH, uploads);
 }
 
 // Remove interrupted upload (completed or cancelled)
 function removeInterruptedUpload(videoPath: string) {
-  const uploads = loadInterruptedUploads();
-  delete uploads[videoPath];
-  Bun.write('data/active-uploads.json', JSON.stringify(uploads, null, 2));
+  const uploads = loadInterruptedUploadCache();
+  deleteEntryAtPath(uploads, videoPath);
+  saveFingerprintCache(ACTIVE_UPLOADS_PATH, uploads);
+}
+
+const SHORTCUT_MIME_TYPE = 'application/vnd.google-apps.shortcut';
+
+/**
+ * Groups attending the lesson block(s) a video of this group covers on this date
+ * The blocks are found from the video's OCR times; without them, only groups sharing every block of the day count,
+ * as a joint block does not make the group's other lessons that day joint
+ */
+async function getSharedGroups(videoPath: string, studentGroup: string, date: string): Promise<string[]> {
+  const recordings: LectureRecording[] = loadJSON('data/lecture_recordings.json') || [];
+  const recording = recordings.find(r => r.date === date && r.studentGroup === studentGroup && r.videos?.includes(videoPath)) ||
+    recordings.find(r => r.date === date && r.studentGroup === studentGroup);
+  const blocks = recording?.lessons || [];
+
+  const times = (await loadVideoTimes([videoPath])).get(videoPath);
+  if (times && times.date === date) {
+    const covered = findOverlappingBlocks(times, blocks, { startToleranceMinutes: loadRecordingsConfig().startToleranceMinutes });
+    return [...new Set(covered.flatMap(({ block }) => block.sharedWith || []))];
+  }
+  return (recording?.sharedWith || []).filter(group =>
+    blocks.length > 0 && blocks.every(block => (block.sharedWith || []).includes(group))
+  );
+}
+
+/**
+ * Publish an uploaded file to other groups' Drive folders as shortcuts
+ * The file itself is stored only once, in the primary group's folder
+ * Returns the groups whose folder now contains a shortcut to the file
+ */
+async function createDriveShortcuts(fileId: string, name: string, groups: string[]): Promise<string[]> {
+  const folders = loadStudyGroups();
+  const credentials = JSON.parse(readFileSync('config/credentials.json', 'utf-8'));
+  const token = JSON.parse(readFileSync('config/token.json', 'utf-8'));
+
+  const { client_secret, client_id, redirect_uris } = credentials.installed;
+  const oAuth2Client = new google.auth.OAuth2(client_id, client_secret, redirect_uris[0]);
+  oAuth2Client.setCredentials(token);
+  const drive = google.drive({ version: 'v3', auth: oAuth2Client });
+
+  const published: string[] = [];
+  for (const group of groups) {
+    const folderId = folders[group];
+    if (!folderId) {
+      logger.log(`⚠️  No Drive folder configured for ${group}, skipping shortcut`);
+      continue;
+    }
+
+    try {
+      // Reuse an existing shortcut (e.g. when an upload is resumed after completing)
+      const existing = await drive.files.list({
+        q: `'${folderId}' in parents and shortcutDetails.targetId = '${fileId}' and trashed=false`,
+        fields: 'files(id)'
+      });
+      if (!existing.data.files?.length) {
+        await drive.files.create({
+          requestBody: {
+            name,
+            mimeType: SHORTCUT_MIME_TYPE,
+            parents: [folderId],
+            shortcutDetails: { targetId: fileId }
+          },
+          fields: 'id'
+        });
+        logger.log(`🔗 Created shortcut to ${name} in ${group} folder`);
+      }
+      published.push(group);
+    } catch (error: any) {
+      logger.error(`❌ Failed to create shortcut in ${group} folder:`, error);
+    }
+  }
+
+  return published;
 }
 
 // Background upload function that continues independently of HTTP request
@@ -313,6 +554,7 @@ async function performBackgroundUpload(
   studentGroup: string,
   date: string,
   uploadFilename: string,
+  sharedWith: string[] = [],  // Groups that get a shortcut to the uploaded file
   startFromByte: number = 0  // Add optional parameter for resume
 ) {
   const filename = videoPath.split('/').pop() || '';
@@ -400,13 +642,14 @@ async function performBackgroundUpload(
 
           // Update interrupted upload state on disk (for resume capability)
           logger.log(`💾 Progress ${percent}%: Updating state on disk (${Math.round(bytesUploaded / (1024 * 1024))} MB / ${Math.round(totalBytes / (1024 * 1024))} MB)`);
-          saveInterruptedUpload(videoPath, {
+          await saveInterruptedUpload(videoPath, {
             videoPath,
             uploadSessionUrl: uploadUrl,
             bytesUploaded,
             bytesTotal: totalBytes,
             studentGroup,
             date,
+            sharedWith,
             interruptedAt: new Date().toISOString()
           });
         }
@@ -445,12 +688,19 @@ async function performBackgroundUpload(
           removeInterruptedUpload(videoPath);
           uploadAbortControllers.delete(uploadId);
 
+          // Joint lesson: other groups get a shortcut instead of a duplicate upload
+          const shortcutGroups = sharedWith.length > 0
+            ? await createDriveShortcuts(file.id, uploadFilename, sharedWith)
+            : [];
+
           // Update lecture_recordings.json to mark as uploaded
           const recordings = loadJSON('data/lecture_recordings.json') || [];
-          const recording = recordings.find((r: any) => r.date === date && r.studentGroup === studentGroup);
-          if (recording) {
-            recording.uploaded = true;
-          }
+          [studentGroup, ...shortcutGroups].forEach(group => {
+            const recording = recordings.find((r: any) => r.date === date && r.studentGroup === group);
+            if (recording) {
+              recording.uploaded = true;
+            }
+          });
           Bun.write('data/lecture_recordings.json', JSON.stringify(recordings, null, 2));
 
           // Sync with Drive to update drive-files.json
@@ -518,68 +768,72 @@ function loadJSON(filename: string) {
   }
 }
 
-// Load timebolt cache
-function loadTimeboltCache() {
-  try {
-    const cache = loadJSON('data/timebolted-cache.json');
-    return cache || { lastRun: null, results: {} };
-  } catch (error) {
-    return { lastRun: null, results: {} };
-  }
+// Caches of per-video results, keyed by content fingerprint so renamed and moved videos keep them
+// (the readers turn each file's path-keyed layout from before fingerprints into entries by path)
+const TIMEBOLT_CACHE_PATH = 'data/timebolted-cache.json';
+const TIMESTAMP_CACHE_PATH = 'data/timestamp-cache.json';
+const VIDEO_METADATA_CACHE_PATH = 'data/video-metadata-cache.json';
+const TIMEBOLTED_VIDEOS_PATH = 'data/timebolted-videos.json';   // Videos marked as timebolted by hand or by ✂️
+const ACTIVE_UPLOADS_PATH = 'data/active-uploads.json';
+
+function loadTimeboltCache(): FingerprintCache<any> {
+  return loadFingerprintCache(TIMEBOLT_CACHE_PATH, json => json?.results);
 }
 
-// Save timebolt cache
-function saveTimeboltCache(cache: any) {
-  Bun.write('data/timebolted-cache.json', JSON.stringify(cache, null, 2));
+function saveTimeboltCache(cache: FingerprintCache<any>) {
+  saveFingerprintCache(TIMEBOLT_CACHE_PATH, cache);
 }
 
-// Load timestamp cache
-function loadTimestampCache() {
-  try {
-    const cache = loadJSON('data/timestamp-cache.json');
-    return cache || { results: {} };
-  } catch (error) {
-    return { results: {} };
-  }
+function loadTimestampCache(): FingerprintCache<any> {
+  return loadFingerprintCache(TIMESTAMP_CACHE_PATH, json => json?.results);
 }
 
-// Save timestamp cache
-function saveTimestampCache(cache: any) {
-  Bun.write('data/timestamp-cache.json', JSON.stringify(cache, null, 2));
+function saveTimestampCache(cache: FingerprintCache<any>) {
+  saveFingerprintCache(TIMESTAMP_CACHE_PATH, cache);
 }
 
-// Get partial hash of file (first 300 bytes only for speed)
-async function getFileHash(filePath: string): Promise<string | null> {
-  try {
-    // Read first 300 bytes and compute xxHash3 (extremely fast)
-    // Analysis showed max common prefix between different files is 163 bytes, so 300 bytes provides 84% safety margin
-    const file = Bun.file(filePath);
-    const slice = file.slice(0, 300);
-    const buffer = await slice.arrayBuffer();
-    const hash = Bun.hash.xxHash3(buffer);
-    return hash.toString();
-  } catch (error: any) {
-    // Only log non-ENOENT errors (missing files are expected and handled)
-    if (error.code !== 'ENOENT') {
-      logger.error('Hash error:', error);
-    }
-    return null;
+function loadVideoMetadataCache(): FingerprintCache<any> {
+  return loadFingerprintCache(VIDEO_METADATA_CACHE_PATH, json => json);
+}
+
+function saveVideoMetadataCache(cache: FingerprintCache<any>) {
+  saveFingerprintCache(VIDEO_METADATA_CACHE_PATH, cache);
+}
+
+function loadTimeboltedVideos(): FingerprintCache<{ isTimebolted: boolean }> {
+  return loadFingerprintCache(TIMEBOLTED_VIDEOS_PATH, json => Object.fromEntries(
+    Object.entries(json || {}).map(([videoPath, isTimebolted]) => [videoPath, { isTimebolted: isTimebolted === true }])
+  ));
+}
+
+// Record whether a video is timebolted, overriding the silence analysis
+async function markTimebolted(videoPath: string, isTimebolted: boolean) {
+  const fingerprint = await fingerprintFile(videoPath);
+  if (!fingerprint) {
+    throw new Error(`Cannot read ${videoPath}`);
   }
+  const tracking = loadTimeboltedVideos();
+  setEntry(tracking, fingerprint, videoPath, { isTimebolted });
+  saveFingerprintCache(TIMEBOLTED_VIDEOS_PATH, tracking);
 }
 
 // Detect timebolt using silence analysis
-async function detectTimeboltBySilence(videoPath: string): Promise<boolean> {
+async function detectTimeboltBySilence(videoPath: string, signal?: AbortSignal): Promise<boolean> {
   try {
     // Analyze first 5 seconds for silences >1 second at -30dB threshold
     const { stdout } = await runFfmpeg(
       `ffmpeg -i "${videoPath}" -t 5 -af "silencedetect=noise=-30dB:d=1" -f null - 2>&1 | grep "silence_duration" | wc -l`,
-      `Silence detection: ${videoPath.split('/').pop()}`
+      `Silence detection: ${videoPath.split('/').pop()}`,
+      signal
     );
 
     const silenceCount = parseInt(stdout.trim());
     // 0 silences = likely timebolted, ≥1 silence = likely original
     return silenceCount === 0;
   } catch (error) {
+    if (signal?.aborted) {
+      throw error; // A cancelled job must not cache a result
+    }
     logger.error('Silence detection error:', error);
     return false;
   }
@@ -588,8 +842,9 @@ async function detectTimeboltBySilence(videoPath: string): Promise<boolean> {
 // Get video duration in seconds
 async function getVideoDuration(videoPath: string): Promise<number | null> {
   try {
-    const { stdout } = await runFfmpeg(
-      `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${videoPath}"`,
+    const { stdout } = await runFfmpegArgs(
+      'ffprobe',
+      ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', videoPath],
       `Get duration: ${videoPath.split('/').pop()}`
     );
     const duration = parseFloat(stdout.trim());
@@ -600,6 +855,196 @@ async function getVideoDuration(videoPath: string): Promise<number | null> {
   }
 }
 
+// Stream layout of a video (codec, resolution, audio codec); parts must match to be joined without re-encoding
+async function getStreamSignature(videoPath: string): Promise<string> {
+  const { stdout } = await runFfmpegArgs(
+    'ffprobe',
+    ['-v', 'error', '-show_entries', 'stream=codec_type,codec_name,width,height', '-of', 'csv=p=0', videoPath],
+    `Probe streams: ${videoPath.split('/').pop()}`
+  );
+  return stdout.trim();
+}
+
+// ffmpeg output formats of the containers a stream copy (joined parts, a video cut to its lesson) can be written in, by extension
+const STREAM_COPY_FORMATS: Record<string, string> = {
+  '.mp4': 'mp4',
+  '.m4v': 'mp4',
+  '.mov': 'mov',
+  '.mkv': 'matroska',
+  '.webm': 'webm'
+};
+
+// Names a joined file may have: it is later passed to ffmpeg command lines, so no quotes, $, ` or backslashes
+const SAFE_FILENAME = /^[\p{L}\p{N} ._,+()\[\]-]+$/u;
+
+/**
+ * Join video parts into one file with ffmpeg's concat demuxer, copying the streams (lossless, no re-encoding)
+ * The container follows the output file's extension (see STREAM_COPY_FORMATS)
+ * The file is written under a temporary name and only renamed once its duration matches the parts
+ */
+async function concatVideos(parts: string[], outputPath: string): Promise<void> {
+  const format = STREAM_COPY_FORMATS[extname(outputPath).toLowerCase()];
+  if (!format) {
+    throw new Error(`Joined files can only be written as ${Object.keys(STREAM_COPY_FORMATS).join(', ')}`);
+  }
+
+  const signatures = await Promise.all(parts.map(getStreamSignature));
+  if (signatures.some(signature => signature !== signatures[0])) {
+    throw new Error('The parts have different video or audio formats and cannot be joined without re-encoding');
+  }
+
+  const tempDir = join(__dirname, 'temp');
+  await execAsync(`mkdir -p "${tempDir}"`);
+  const listPath = join(tempDir, `concat_${Date.now()}.txt`);
+  // Concat list format: file '<path>', with single quotes escaped as '\''
+  writeFileSync(listPath, parts.map(part => `file '${part.replace(/'/g, "'\\''")}'`).join('\n'));
+  const partialPath = `${outputPath}.part`;
+
+  try {
+    await runFfmpegArgs(
+      'ffmpeg',
+      [
+        '-y', '-v', 'error', '-f', 'concat', '-safe', '0', '-i', listPath, '-c', 'copy',
+        ...(format === 'mp4' || format === 'mov' ? ['-movflags', '+faststart'] : []),
+        '-f', format, partialPath
+      ],
+      `Join ${parts.length} parts: ${outputPath.split('/').pop()}`
+    );
+
+    const durations = await Promise.all(parts.map(getVideoDuration));
+    const expected = durations.reduce((sum: number, d) => sum + (d || 0), 0);
+    const actual = await getVideoDuration(partialPath);
+    if (!actual || Math.abs(actual - expected) > Math.max(5, expected * 0.01)) {
+      throw new Error(`Joined file is ${Math.round(actual || 0)}s long, expected ${Math.round(expected)}s`);
+    }
+
+    renameSync(partialPath, outputPath);
+  } catch (error) {
+    if (existsSync(partialPath)) {
+      unlinkSync(partialPath);
+    }
+    throw error;
+  } finally {
+    unlinkSync(listPath);
+  }
+}
+
+/**
+ * Copy a section of a video without re-encoding, into the container of the output file's extension
+ * Stream copy can only start at a keyframe, so the copy may begin a few seconds before inSeconds
+ */
+async function cutVideoSection(videoPath: string, outputPath: string, inSeconds: number, outSeconds: number): Promise<void> {
+  const format = STREAM_COPY_FORMATS[extname(outputPath).toLowerCase()];
+  if (!format) {
+    throw new Error(`Only ${Object.keys(STREAM_COPY_FORMATS).join(', ')} videos can be cut without re-encoding`);
+  }
+
+  const partialPath = `${outputPath}.part`;
+  try {
+    await runFfmpegArgs(
+      'ffmpeg',
+      [
+        '-y', '-v', 'error', '-ss', inSeconds.toFixed(3), '-i', videoPath, '-t', (outSeconds - inSeconds).toFixed(3),
+        '-c', 'copy', '-avoid_negative_ts', 'make_zero',
+        ...(format === 'mp4' || format === 'mov' ? ['-movflags', '+faststart'] : []),
+        '-f', format, partialPath
+      ],
+      `Trim to lesson: ${videoPath.split('/').pop()}`
+    );
+    renameSync(partialPath, outputPath);
+  } catch (error) {
+    if (existsSync(partialPath)) {
+      unlinkSync(partialPath);
+    }
+    throw error;
+  }
+}
+
+// Output of the silence trim: "<name> (timebolted).mp4" next to the original (detected as timebolted by its name)
+function getSilenceTrimOutputPath(videoPath: string): string {
+  const filename = videoPath.split('/').pop() || '';
+  return join(dirname(videoPath), `${filename.replace(/\.[^.]+$/, '')} (timebolted).mp4`);
+}
+
+/**
+ * Cut the silences out of a video, as a local alternative to Timebolt
+ * Detects silences over the whole recording, keeps everything else (plus padding) and re-encodes the kept parts,
+ * then records the output as the timebolted version in data/timebolted-videos.json
+ */
+async function runSilenceTrimJob(job: SilenceTrimJob) {
+  const update = (changes: Partial<SilenceTrimJob>) => {
+    Object.assign(job, changes);
+    broadcastEvent({ type: 'silence-trim', job });
+  };
+  const filename = job.videoPath.split('/').pop() || '';
+  const { noiseDb, minSilenceSeconds } = job.settings;
+
+  try {
+    const duration = await getVideoDuration(job.videoPath);
+    if (!duration) {
+      throw new Error('Could not read the video duration');
+    }
+
+    logger.log(`✂️  Detecting silences in ${filename} (${noiseDb} dB, ${minSilenceSeconds}s)...`);
+    // silencedetect reports on stderr; the parser picks its lines out of the rest of the log
+    const { stderr } = await runFfmpegArgs(
+      'ffmpeg',
+      ['-hide_banner', '-nostats', '-i', job.videoPath, '-vn', '-af', `silencedetect=noise=${noiseDb}dB:d=${minSilenceSeconds}`, '-f', 'null', '-'],
+      `Silence detection (full video): ${filename}`
+    );
+    const silences = parseSilenceDetectOutput(stderr, duration);
+    const segments = buildKeepSegments(silences, duration, job.settings);
+    const keptSeconds = segments.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+    if (segments.length === 0 || duration - keptSeconds < 1) {
+      throw new Error(`No silences of ${minSilenceSeconds}s or longer below ${noiseDb} dB found`);
+    }
+
+    update({ status: 'rendering', removedSeconds: Math.round(duration - keptSeconds) });
+    logger.log(`✂️  Cutting ${silences.length} silences (${formatFuzzyDuration(duration - keptSeconds)}) from ${filename}...`);
+
+    // The cut list can be very long, so the filters are passed as script files
+    const tempDir = join(__dirname, 'temp');
+    await execAsync(`mkdir -p "${tempDir}"`);
+    const expression = buildSelectExpression(segments);
+    const videoFilterPath = join(tempDir, `${job.id}_video.txt`);
+    const audioFilterPath = join(tempDir, `${job.id}_audio.txt`);
+    writeFileSync(videoFilterPath, `select='${expression}',setpts=N/FRAME_RATE/TB`);
+    writeFileSync(audioFilterPath, `aselect='${expression}',asetpts=N/SR/TB`);
+
+    const outputPath = getSilenceTrimOutputPath(job.videoPath);
+    const partialPath = `${outputPath}.part`;
+    try {
+      await runFfmpegArgs(
+        'ffmpeg',
+        [
+          '-y', '-v', 'error', '-i', job.videoPath, '-filter_script:v', videoFilterPath, '-filter_script:a', audioFilterPath,
+          '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-c:a', 'aac', '-b:a', '128k', '-movflags', '+faststart',
+          '-f', 'mp4', partialPath
+        ],
+        `Silence trim: ${filename}`
+      );
+      renameSync(partialPath, outputPath);
+    } catch (error) {
+      if (existsSync(partialPath)) {
+        unlinkSync(partialPath);
+      }
+      throw error;
+    } finally {
+      unlinkSync(videoFilterPath);
+      unlinkSync(audioFilterPath);
+    }
+
+    await markTimebolted(outputPath, true);
+
+    await recordingCatalog.refresh([outputPath]);
+    logger.log(`✅ Silence trim complete: ${outputPath}`);
+    update({ status: 'complete', outputPath });
+  } catch (error: any) {
+    logger.error(`❌ Silence trim failed for ${filename}:`, error);
+    update({ status: 'error', error: error.message });
+  }
+}
+
 // Format duration as fuzzy time (e.g., "13m" or "5h")
 function formatFuzzyDuration(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
@@ -643,366 +1088,408 @@ function formatFileSize(bytes: number): string {
   return `${(bytes / Math.pow(k, i)).toFixed(0)} ${sizes[i]}`;
 }
 
-// Extract timestamp and duration from video
-async function extractTimestampFromVideo(videoPath: string): Promise<{ timestamp: string, duration: string, endTimestamp: string } | null> {
-  const cache = loadTimestampCache();
+// Whether the tesseract fallback is installed (checked on first use)
+let tesseractAvailable: boolean | null = null;
+
+/**
+ * Read the burned-in timestamp from one frame (PGM) cropped with `profile`
+ * The built-in glyph recognizer is tried first, once trained for the profile; tesseract reads the frames it cannot
+ */
+async function readTimestampImage(imagePath: string, profile: OcrProfile, signal?: AbortSignal): Promise<{ engine: 'glyphs' | 'tesseract' | 'none'; rawText: string; cleanedText: string; timestamp: OcrTimestamp | null }> {
+  const recognized = recognizeText(readPgm(readFileSync(imagePath)), loadDigitTemplates()[profile.name]);
+  const recognizedTimestamp = recognized ? parseOcrTimestamp(recognized.text) : null;
+  if (recognized && recognizedTimestamp) {
+    return { engine: 'glyphs', rawText: recognized.text, cleanedText: recognized.text, timestamp: recognizedTimestamp };
+  }
+
+  if (tesseractAvailable === null) {
+    tesseractAvailable = await execAsync('tesseract --version').then(() => true, () => false);
+    if (!tesseractAvailable) {
+      logger.log('⚠️  Tesseract is not installed; only the built-in recognizer reads timestamps (train it with 🔢)');
+    }
+  }
+  if (!tesseractAvailable) {
+    return { engine: 'none', rawText: recognized?.text || '', cleanedText: recognized?.text || '', timestamp: null };
+  }
+
+  const { stdout } = await execCancellable(`tesseract "${imagePath}" stdout --psm ${profile.psm}`, signal);
+  const cleanedText = cleanOcrText(stdout, profile.cleanup);
+  return { engine: 'tesseract', rawText: stdout.trim(), cleanedText, timestamp: parseOcrTimestamp(cleanedText) };
+}
 
-  // Compute xxHash3 of first 300 bytes for cache validation
-  const fileHash = await getFileHash(videoPath);
+// Dimensions and duration of a video in a single ffprobe call
+async function probeVideo(videoPath: string, signal?: AbortSignal): Promise<{ width: number; height: number; durationSeconds: number | null }> {
+  const { stdout } = await runFfmpeg(
+    `ffprobe -v error -select_streams v:0 -show_entries stream=width,height:format=duration -of json "${videoPath}"`,
+    `Probe: ${videoPath.split('/').pop()}`,
+    signal
+  );
+  const probe = JSON.parse(stdout);
+  const durationSeconds = parseFloat(probe.format?.duration);
+  return {
+    width: probe.streams?.[0]?.width || 0,
+    height: probe.streams?.[0]?.height || 0,
+    durationSeconds: isNaN(durationSeconds) ? null : durationSeconds
+  };
+}
+
+/**
+ * Write the first frames of a video to `workDir` in one ffmpeg pass: full frames as full_N.png (for debugging)
+ * and the timestamp region of every profile as start_P_N.pgm; decoding stops after the last selected frame
+ * N counts the START_FRAMES from 1, P is the index of the profile
+ */
+async function extractStartFrames(videoPath: string, profiles: OcrProfile[], width: number, height: number, workDir: string, signal?: AbortSignal) {
+  const frameSelect = START_FRAMES.map(frameNum => `eq(n\\,${frameNum})`).join('+');
+  const profileFilters = profiles.map((profile, p) => `[ts${p}]${buildOcrFilter(profile, width, height)}[crop${p}]`).join(';');
+  const profileOutputs = profiles.map((_, p) =>
+    `-map "[crop${p}]" -fps_mode passthrough -frames:v ${START_FRAMES.length} "${workDir}/start_${p}_%d.pgm"`
+  ).join(' ');
+  await runFfmpeg(
+    `ffmpeg -v error -i "${videoPath}" -filter_complex ` +
+    `"[0:v]select=${frameSelect},split=${profiles.length + 1}[full]${profiles.map((_, p) => `[ts${p}]`).join('')};${profileFilters}" ` +
+    `-map "[full]" -fps_mode passthrough -frames:v ${START_FRAMES.length} "${workDir}/full_%d.png" ${profileOutputs} -y`,
+    `Extract start frames: ${videoPath.split('/').pop()}`,
+    signal
+  );
+}
+
+// Images of a video's failed extraction, kept until its timestamps are read or corrected by hand
+function getOcrDebugDir(fingerprint: string): string {
+  return join(__dirname, 'debug_frames', fingerprint);
+}
+
+/**
+ * Read the start and end times burned into a video (cached by content fingerprint)
+ * Uses three ffmpeg processes whatever the video length: a probe, one pass over the first frames
+ * (cropped for every OCR profile and full for debugging) and one seek to shortly before the end for the last frames.
+ * The first profile that reads a start time is used for the end time and stored in the cache. The profile that read
+ * the video before (`preferredProfile` of a reprocessed video, else the file this one replaced at its path) is tried first.
+ * A cancelled job's extraction throws instead of caching what it read so far.
+ */
+async function extractTimestampFromVideo(videoPath: string, job: JobContext, preferredProfile?: string): Promise<{ timestamp: string, duration: string, endTimestamp: string, startClock: string } | null> {
+  const cache = loadTimestampCache();
+  const fingerprint = await fingerprintFile(videoPath);
 
-  // Check cache first using hash (not mtime - files can be copied/moved)
-  const cachedResult = cache.results[videoPath];
-  if (cachedResult && fileHash && cachedResult.hash === fileHash) {
-    // Hash matches - file content unchanged, use cached result
+  // Check cache first by content (not path or mtime - files can be copied/moved/renamed)
+  // Times corrected by hand belong to that content: a file replaced at the same path is read again, and the
+  // manual entry stays under its own fingerprint
+  const cachedResult = await lookupEntry(cache, videoPath, fingerprint);
+  if (cachedResult) {
     return cachedResult.timestamp ? {
       timestamp: cachedResult.timestamp,
       duration: cachedResult.duration || '',
-      endTimestamp: cachedResult.endTimestamp || ''
+      endTimestamp: cachedResult.endTimestamp || '',
+      startClock: cachedResult.startClock || ''
     } : null;
   }
 
+  const filename = videoPath.split('/').pop() || '';
+  // Frames of this extraction, removed when it is done (those of a failed read are kept in debug_frames/)
+  const workDir = join(__dirname, 'temp', `ocr_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`);
+  const timings = { probe: 0, startFrames: 0, endFrames: 0, ocr: 0, ocrImages: 0 };
+  const extractionStart = Date.now();
+
+  // Time one step of the extraction into `timings`
+  const timed = async <T>(step: 'probe' | 'startFrames' | 'endFrames' | 'ocr', run: () => Promise<T>): Promise<T> => {
+    const stepStart = Date.now();
+    try {
+      return await run();
+    } finally {
+      timings[step] += Date.now() - stepStart;
+    }
+  };
+
   try {
-    const filename = videoPath.split('/').pop() || '';
     logger.log(`Extracting timestamp from: ${filename}`);
+    mkdirSync(workDir, { recursive: true });
 
-    // Get video dimensions first
-    const { stdout: probeOutput } = await runFfmpeg(
-      `ffprobe -v error -select_streams v:0 -show_entries stream=width,height -of csv=p=0 "${videoPath}"`,
-      `Get dimensions: ${filename}`
-    );
-
-    const [widthStr, heightStr] = probeOutput.trim().split(',');
-    const width = parseInt(widthStr);
-    const height = parseInt(heightStr);
-
+    const signal = job.signal;
+    const { width, height, durationSeconds } = await timed('probe', () => probeVideo(videoPath, signal));
     if (!width || !height) {
       logger.error(`Could not detect video dimensions for ${filename}`);
       return null;
     }
-
-    // Create temp directory if it doesn't exist
-    const tempDir = join(__dirname, 'temp');
-    await execAsync(`mkdir -p "${tempDir}"`);
-
-    // Create debug directory
-    const debugDir = join(__dirname, 'debug_frames');
-    await execAsync(`mkdir -p "${debugDir}"`);
-
-    // Debug filenames based on video filename
-    const videoFilename = videoPath.split('/').pop()?.replace(/\.mp4$/, '') || 'unknown';
-
-    // Calculate crop area for bottom-right timestamp
-    // Zoom timestamps are positioned at fixed pixel offsets from edges, not percentages
-    // Crop a fixed-size region from bottom-right corner to capture just the timestamp box
-    const timestampBoxWidth = 300;   // Width of timestamp box in pixels
-    const timestampBoxHeight = 45;   // Height of timestamp box in pixels
-    const marginRight = 21;          // Pixels from right edge
-    const marginBottom = 15;         // Pixels from bottom edge
-
-    const cropWidth = Math.min(timestampBoxWidth, width - marginRight);
-    const cropHeight = Math.min(timestampBoxHeight, height - marginBottom);
-    const cropX = Math.max(0, width - timestampBoxWidth - marginRight);
-    const cropY = Math.max(0, height - timestampBoxHeight - marginBottom);
-
-    // Process frames 0, 3, 7, 10, 14 SEQUENTIALLY (to avoid CPU overload)
-    const framesToTry = [0, 3, 7, 10, 14];
-    const results: any[] = [];
-
-    for (const frameNum of framesToTry) {
-      const tempImagePath = join(tempDir, `frame_${Date.now()}_${frameNum}.png`);
-      const debugFullPath = join(debugDir, `${videoFilename}_frame${frameNum}_full.png`);
-      const debugCropPath = join(debugDir, `${videoFilename}_frame${frameNum}.png`);
-
-      try {
-        // Extract full frame for debugging
-        await runFfmpeg(
-          `ffmpeg -i "${videoPath}" -vf "select=eq(n\\,${frameNum})" -vframes 1 "${debugFullPath}" -y 2>&1`,
-          `Extract start frame ${frameNum} (debug): ${videoFilename}`
-        );
-
-        // Extract frame, crop to bottom-right timestamp, and scale up 4x
-        // Use minimal preprocessing - aggressive filters can corrupt text
-        await runFfmpeg(
-          `ffmpeg -i "${videoPath}" -vf "select=eq(n\\,${frameNum}),crop=${cropWidth}:${cropHeight}:${cropX}:${cropY},scale=iw*4:ih*4" -vframes 1 "${tempImagePath}" -y 2>&1`,
-          `Extract start frame ${frameNum}: ${videoFilename}`
-        );
-
-        // Copy the cropped/processed image to debug directory
-        await execAsync(`cp "${tempImagePath}" "${debugCropPath}"`);
-
-        // Use Tesseract to extract text from the cropped image
-        const { stdout } = await execAsync(
-          `tesseract "${tempImagePath}" stdout --psm 7`
-        );
-
-        // Clean up temp image
-        try {
-          await execAsync(`rm "${tempImagePath}"`);
-        } catch (e) {
-          // Ignore cleanup errors
+    const previousProfile = preferredProfile || (entryAtPath(cache, videoPath) || cache.legacy[videoPath])?.ocrProfile;
+    const profiles = selectOcrProfiles(loadRecordingsConfig(), videoPath, previousProfile);
+    const attempts: OcrAttempt[] = [];
+
+    job.progress(0.3, 'Reading the start time');
+    await timed('startFrames', () => extractStartFrames(videoPath, profiles, width, height, workDir, signal));
+
+    // Try the start frames of each profile in order until one has a valid timestamp
+    let timestamp: string | null = null;
+    let startClock = '';  // HH:MM:SS, for cuts that need the seconds
+    let profile: OcrProfile | null = null;
+    for (const [p, candidate] of profiles.entries()) {
+      for (const [index, frameNum] of START_FRAMES.entries()) {
+        const imagePath = join(workDir, `start_${p}_${index + 1}.pgm`);
+        if (!existsSync(imagePath)) {
+          logger.log(`  Frame ${frameNum} [${candidate.name}] ✗ Not in the video`);
+          continue;
         }
-
-        // Clean up OCR output - replace common OCR mistakes
-        let cleanedText = stdout.trim()
-          .replace(/[;,()]/g, '-')
-          .replace(/[°*]/g, ':')
-          .replace(/[oOQ]/g, '0')
-          .replace(/[lI|]/g, '1')
-          .replace(/[Uu]/g, '0')
-          .replace(/[Zz]/g, '2')
-          .replace(/\s+/g, ' ')
-          .replace(/--+/g, '-')
-          .replace(/[Ff]/g, '7');
-
-        logger.log(`  Frame ${frameNum} OCR raw: "${stdout.trim()}"`);
-        logger.log(`  Frame ${frameNum} OCR cleaned: "${cleanedText}"`);
-
-        // Parse and validate timestamp
-        const timestampMatch = cleanedText.match(/(\d{4}[-]\d{1,2}[-]\d{1,2}\s+\d{1,2}:\d{1,2}:\d{1,2})/);
-        let extractedTimestamp = timestampMatch ? timestampMatch[1] : null;
-
-        if (extractedTimestamp) {
-          const parts = extractedTimestamp.split(/[-\s:]/);
-          if (parts.length === 6) {
-            const [year, month, day, hour, minute, second] = parts;
+        try {
+          timings.ocrImages++;
+          const result = await timed('ocr', () => readTimestampImage(imagePath, candidate, signal));
+          attempts.push({ frame: `start ${frameNum}`, profile: candidate.name, engine: result.engine, rawText: result.rawText, cleanedText: result.cleanedText });
+          logger.log(`  Frame ${frameNum} [${candidate.name}] OCR raw (${result.engine}): "${result.rawText}"`);
+          logger.log(`  Frame ${frameNum} [${candidate.name}] OCR cleaned: "${result.cleanedText}"`);
+          if (result.timestamp) {
             // Format without seconds
-            extractedTimestamp = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')} ${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`;
-
-            // Validate timestamp values
-            const yearNum = parseInt(year);
-            const monthNum = parseInt(month);
-            const dayNum = parseInt(day);
-            const hourNum = parseInt(hour);
-            const minuteNum = parseInt(minute);
-            const secondNum = parseInt(second);
-
-            if (yearNum >= 2024 && yearNum <= 2026 &&
-                monthNum >= 1 && monthNum <= 12 &&
-                dayNum >= 1 && dayNum <= 31 &&
-                hourNum >= 0 && hourNum <= 23 &&
-                minuteNum >= 0 && minuteNum <= 59 &&
-                secondNum >= 0 && secondNum <= 59) {
-              logger.log(`  Frame ${frameNum} ✓ Valid timestamp: ${extractedTimestamp}`);
-              results.push({ frameNum, timestamp: extractedTimestamp });
-              break; // Stop after first valid timestamp
-            } else {
-              logger.log(`  Frame ${frameNum} ✗ Invalid values`);
-              results.push({ frameNum, timestamp: null });
-            }
-          } else {
-            results.push({ frameNum, timestamp: null });
+            timestamp = `${result.timestamp.date} ${result.timestamp.clock.substring(0, 5)}`;
+            startClock = result.timestamp.clock;
+            profile = candidate;
+            logger.log(`  Frame ${frameNum} [${candidate.name}] ✓ Valid timestamp: ${timestamp}`);
+            break;
           }
-        } else {
-          logger.log(`  Frame ${frameNum} ✗ No pattern found`);
-          results.push({ frameNum, timestamp: null });
+          logger.log(`  Frame ${frameNum} [${candidate.name}] ✗ No valid timestamp found`);
+        } catch (error) {
+          logger.error(`  Frame ${frameNum} [${candidate.name}] error:`, error);
         }
-      } catch (error) {
-        logger.error(`  Frame ${frameNum} error:`, error);
-        results.push({ frameNum, timestamp: null });
+      }
+      if (profile) {
+        break;
       }
     }
 
-    // Find first valid timestamp
-    const validResult = results.find(r => r.timestamp !== null);
-    const timestamp = validResult?.timestamp || null;
-    const successfulFrame = validResult?.frameNum ?? -1;
+    logger.log(`Final start timestamp: ${timestamp}${profile ? ` (OCR profile "${profile.name}")` : ''}`);
 
-    logger.log(`Final start timestamp: ${timestamp} (from frame ${successfulFrame})`);
-
-    // Get video duration and extract end timestamp from last frame
+    // Get video duration and extract end timestamp from last frames (the video might be edited/timebolted)
     let durationStr = '';
     let endTimestamp = '';
-    if (timestamp) {
-      const durationSeconds = await getVideoDuration(videoPath);
-      if (durationSeconds) {
-        durationStr = formatFuzzyDuration(durationSeconds);
-        logger.log(`  Duration: ${durationStr} (${durationSeconds.toFixed(0)}s)`);
-
-        // Extract timestamp from last frame (since video might be edited/timebolted)
-        try {
-          // Get total frame count and FPS for time-based seeking
-          const { stdout: frameCountOutput } = await runFfmpeg(
-            `ffprobe -v error -select_streams v:0 -count_packets -show_entries stream=nb_read_packets -of csv=p=0 "${videoPath}"`,
-            `Get frame count: ${filename}`
-          );
-          const totalFrames = parseInt(frameCountOutput.trim());
-          const fps = totalFrames / durationSeconds;
-          logger.log(`  Total frames: ${totalFrames}, FPS: ${fps.toFixed(2)}`);
-
-          if (totalFrames > 15) {
-            logger.log(`  Extracting end timestamp from last frames...`);
-            // Extract timestamp from last frames (going backwards from end, similar to start strategy)
-            const lastFramesToTry = [
-              totalFrames - 1,   // Last frame
-              totalFrames - 4,   // -3 frames
-              totalFrames - 8,   // -7 frames
-              totalFrames - 11,  // -10 frames
-              totalFrames - 15   // -14 frames
-            ].filter(f => f > 0);
-
-            // Process frames SEQUENTIALLY (to avoid CPU overload)
-            const endResults: any[] = [];
-
-            for (const frameNum of lastFramesToTry) {
-              const tempImagePath = join(tempDir, `frame_end_${Date.now()}_${frameNum}.png`);
-
-              try {
-                // Calculate time position for this frame (time-based seeking is MUCH faster than frame-based)
-                const seekTime = frameNum / fps;
-                logger.log(`  Extracting end frame ${frameNum} (seek to ${seekTime.toFixed(2)}s)...`);
-
-                // Use -ss BEFORE -i for fast seeking, then extract 1 frame
-                // Use MINIMAL preprocessing for end frames - unsharp/eq filters corrupt colons
-                await runFfmpeg(
-                  `ffmpeg -ss ${seekTime.toFixed(3)} -i "${videoPath}" -vf "crop=${cropWidth}:${cropHeight}:${cropX}:${cropY},scale=iw*4:ih*4" -vframes 1 "${tempImagePath}" -y 2>&1`,
-                  `Extract end frame ${frameNum}: ${filename}`
-                );
-
-                // Verify frame was actually extracted
-                if (!existsSync(tempImagePath)) {
-                  logger.log(`  End frame ${frameNum} ✗ FFmpeg failed to extract frame (seek beyond video end?)`);
-                  endResults.push({ frameNum, endTime: null });
-                  continue;
-                }
-
-                logger.log(`  Running OCR on end frame ${frameNum}...`);
-                const { stdout } = await execAsync(`tesseract "${tempImagePath}" stdout --psm 7`);
-
-                // Clean OCR output
-                let cleanedText = stdout.trim()
-                  .replace(/[;,()]/g, '-')
-                  .replace(/[°*]/g, ':')
-                  .replace(/[oOQ]/g, '0')
-                  .replace(/[lI|]/g, '1')
-                  .replace(/[Uu]/g, '0')
-                  .replace(/[Zz]/g, '2')
-                  .replace(/\s+/g, ' ')
-                  .replace(/--+/g, '-')
-                  .replace(/[Ff]/g, '7');
-
-                logger.log(`  End frame ${frameNum} OCR raw: "${stdout.trim()}"`);
-                logger.log(`  End frame ${frameNum} OCR cleaned: "${cleanedText}"`);
-
-                const timestampMatch = cleanedText.match(/(\d{4}[-]\d{1,2}[-]\d{1,2}\s+\d{1,2}:\d{1,2}:\d{1,2})/);
-                if (timestampMatch) {
-                  const parts = timestampMatch[1].split(/[-\s:]/);
-                  if (parts.length === 6) {
-                    const [year, month, day, hour, minute, second] = parts;
-
-                    // Validate timestamp values
-                    const yearNum = parseInt(year);
-                    const monthNum = parseInt(month);
-                    const dayNum = parseInt(day);
-                    const hourNum = parseInt(hour);
-                    const minuteNum = parseInt(minute);
-                    const secondNum = parseInt(second);
-
-                    if (yearNum >= 2024 && yearNum <= 2026 &&
-                        monthNum >= 1 && monthNum <= 12 &&
-                        dayNum >= 1 && dayNum <= 31 &&
-                        hourNum >= 0 && hourNum <= 23 &&
-                        minuteNum >= 0 && minuteNum <= 59 &&
-                        secondNum >= 0 && secondNum <= 59) {
-                      const endTime = `${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`;
-                      logger.log(`  End frame ${frameNum} ✓ Valid timestamp: ${endTime}`);
-                      endResults.push({ frameNum, endTime });
-                      break; // Stop after first valid timestamp
-                    } else {
-                      logger.log(`  End frame ${frameNum} ✗ Invalid values`);
-                      endResults.push({ frameNum, endTime: null });
-                    }
-                  } else {
-                    endResults.push({ frameNum, endTime: null });
-                  }
-                } else {
-                  logger.log(`  End frame ${frameNum} ✗ No pattern found`);
-                  endResults.push({ frameNum, endTime: null });
-                }
+    let endClock = '';
+    if (profile && durationSeconds) {
+      durationStr = formatFuzzyDuration(durationSeconds);
+      logger.log(`  Duration: ${durationStr} (${durationSeconds.toFixed(0)}s)`);
+      job.progress(0.6, 'Reading the end time');
 
-                // Cleanup temp file
-                await execAsync(`rm -f "${tempImagePath}"`);
-              } catch (e) {
-                logger.error(`  End frame ${frameNum} error:`, e);
-                endResults.push({ frameNum, endTime: null });
-              }
-            }
-
-            // Find first valid end timestamp
-            const validEndResult = endResults.find(r => r.endTime !== null);
-            if (validEndResult) {
-              endTimestamp = validEndResult.endTime!;
-              logger.log(`  Final end timestamp: ${endTimestamp} (from frame ${validEndResult.frameNum})`);
+      try {
+        // Seek by time (fast, no need to count frames) and keep every frame up to the end
+        const seekTime = Math.max(0, durationSeconds - END_WINDOW_SECONDS);
+        await timed('endFrames', () => runFfmpeg(
+          `ffmpeg -v error -ss ${seekTime.toFixed(3)} -i "${videoPath}" -vf "${buildOcrFilter(profile, width, height)}" -fps_mode passthrough "${workDir}/end_%04d.pgm" -y`,
+          `Extract end frames: ${filename}`,
+          signal
+        ));
+
+        const endFrames = readdirSync(workDir).filter(name => name.startsWith('end_')).sort();
+        for (const framesBeforeLast of END_FRAMES_BEFORE_LAST) {
+          const frameName = endFrames[endFrames.length - 1 - framesBeforeLast];
+          if (!frameName) {
+            continue;
+          }
+          try {
+            timings.ocrImages++;
+            const result = await timed('ocr', () => readTimestampImage(join(workDir, frameName), profile, signal));
+            attempts.push({ frame: `end -${framesBeforeLast}`, profile: profile.name, engine: result.engine, rawText: result.rawText, cleanedText: result.cleanedText });
+            logger.log(`  End frame -${framesBeforeLast} OCR raw (${result.engine}): "${result.rawText}"`);
+            logger.log(`  End frame -${framesBeforeLast} OCR cleaned: "${result.cleanedText}"`);
+            if (result.timestamp) {
+              endTimestamp = result.timestamp.clock.substring(0, 5);
+              endClock = result.timestamp.clock;
+              logger.log(`  Final end timestamp: ${endTimestamp} (${framesBeforeLast} frames before the last)`);
+              break;
             }
+            logger.log(`  End frame -${framesBeforeLast} ✗ No valid timestamp found`);
+          } catch (error) {
+            logger.error(`  End frame -${framesBeforeLast} error:`, error);
           }
-        } catch (error) {
-          logger.log(`  ⚠️ Could not extract end timestamp:`, error);
         }
+      } catch (error) {
+        logger.log(`  ⚠️ Could not extract end timestamp:`, error);
       }
     }
 
-    // If timestamp extraction was successful, delete debug images (we only keep failed ones)
-    if (timestamp) {
+    // Steps that failed because the job was cancelled must not be taken as unreadable frames
+    signal?.throwIfAborted();
+
+    // Keep the frames of a failed read for the OCR diagnostics view (as PNG, which browsers show)
+    const debugDir = getOcrDebugDir(fingerprint || 'unknown');
+    const debugImages: { file: string; label: string }[] = [];
+    const endMissing = Boolean(profile && durationSeconds && !endTimestamp);
+    rmSync(debugDir, { recursive: true, force: true });
+    if (!timestamp || endMissing) {
       try {
-        for (const frameNum of framesToTry) {
-          const debugFullPath = join(debugDir, `${videoFilename}_frame${frameNum}_full.png`);
-          const debugCropPath = join(debugDir, `${videoFilename}_frame${frameNum}.png`);
-          await execAsync(`rm -f "${debugFullPath}" "${debugCropPath}"`);
+        mkdirSync(debugDir, { recursive: true });
+        if (!timestamp) {
+          for (const [index, frameNum] of START_FRAMES.entries()) {
+            if (existsSync(join(workDir, `full_${index + 1}.png`))) {
+              renameSync(join(workDir, `full_${index + 1}.png`), join(debugDir, `full_${index + 1}.png`));
+              debugImages.push({ file: `full_${index + 1}.png`, label: `Frame ${frameNum}` });
+            }
+          }
+          for (const [p, candidate] of profiles.entries()) {
+            await runFfmpeg(
+              `ffmpeg -v error -i "${workDir}/start_${p}_%d.pgm" "${debugDir}/start_${p}_%d.png" -y`,
+              `Keep failed start frames: ${filename}`
+            );
+            START_FRAMES.forEach((frameNum, index) => {
+              if (existsSync(join(debugDir, `start_${p}_${index + 1}.png`))) {
+                debugImages.push({ file: `start_${p}_${index + 1}.png`, label: `Frame ${frameNum}, ${candidate.name} crop` });
+              }
+            });
+          }
+        } else {
+          const lastEndFrame = readdirSync(workDir).filter(name => name.startsWith('end_')).sort().pop();
+          if (lastEndFrame && profile) {
+            await runFfmpeg(
+              `ffmpeg -v error -i "${join(workDir, lastEndFrame)}" "${debugDir}/end_last.png" -y`,
+              `Keep failed end frame: ${filename}`
+            );
+            debugImages.push({ file: 'end_last.png', label: `Last frame, ${profile.name} crop` });
+          }
         }
-        logger.log(`  ✓ Cleaned up debug images (extraction successful)`);
-      } catch (e) {
-        // Ignore cleanup errors
+        logger.log(`  ⚠️ Keeping debug images (${timestamp ? 'end' : 'start'} time not read)`);
+      } catch (error) {
+        logger.error(`  Could not keep debug images:`, error);
       }
-    } else {
-      logger.log(`  ⚠️ Keeping debug images (extraction failed)`);
     }
 
-    // Cache the result (even if null, to avoid reprocessing)
-    if (fileHash) {
-      cache.results[videoPath] = {
+    logger.log(
+      `⏱️  Timestamp extraction of ${filename}: probe ${timings.probe}ms, start frames ${timings.startFrames}ms, ` +
+      `end frames ${timings.endFrames}ms, OCR ${timings.ocr}ms (${timings.ocrImages} images), total ${Date.now() - extractionStart}ms`
+    );
+
+    // Cache the result (even if null, to avoid reprocessing); reloaded, as other videos were cached meanwhile
+    if (fingerprint) {
+      const latest = loadTimestampCache();
+      setEntry(latest, fingerprint, videoPath, {
         timestamp,
         duration: durationStr,
         endTimestamp,
+        startClock,
+        endClock,
+        durationSeconds,
+        ocrProfile: profile?.name || null,
         extractedAt: new Date().toISOString(),
-        hash: fileHash
-      };
-      saveTimestampCache(cache);
+        // What was read from each image, for the OCR diagnostics view
+        ...(endMissing || !timestamp ? { ocrAttempts: attempts, debugImages } : {})
+      });
+      saveTimestampCache(latest);
     }
 
-    return timestamp ? { timestamp, duration: durationStr, endTimestamp } : null;
+    return timestamp ? { timestamp, duration: durationStr, endTimestamp, startClock } : null;
   } catch (error) {
+    if (job.signal.aborted) {
+      throw error;
+    }
     logger.error('Timestamp extraction error:', error);
     return null;
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
   }
 }
 
-// Analyze if video is timebolted (with caching)
-async function analyzeVideo(videoPath: string) {
-  // Check filename patterns (fast check first)
+/**
+ * OCR the burned-in clock every `intervalSeconds` through the whole video (and at its last second)
+ */
+async function sampleWallClock(videoPath: string, intervalSeconds: number, durationSeconds: number, job: JobContext): Promise<WallClockSample[]> {
   const filename = videoPath.split('/').pop() || '';
-  const hasTimeboltedInName = /timebolted|turbo|FINAL|BEST/i.test(filename);
+  const { width, height } = await probeVideo(videoPath, job.signal);
+  if (!width || !height) {
+    throw new Error(`Could not detect video dimensions for ${filename}`);
+  }
+  // The profile that read the start time, or the first one to try when there is none
+  const profile = selectOcrProfiles(loadRecordingsConfig(), videoPath, entryAtPath(loadTimestampCache(), videoPath)?.ocrProfile)[0];
+  const filter = buildOcrFilter(profile, width, height);
 
-  // Load manual tracking
-  const manualTracking = loadJSON('data/timebolted-videos.json') || {};
-  const isManuallyMarked = manualTracking[videoPath] === true;
+  const tempDir = join(__dirname, 'temp');
+  await execAsync(`mkdir -p "${tempDir}"`);
 
-  // If manually marked or obvious from filename, skip analysis
-  if (isManuallyMarked || hasTimeboltedInName) {
+  const positions: number[] = [];
+  for (let seconds = 0; seconds < durationSeconds - 1; seconds += intervalSeconds) {
+    positions.push(seconds);
+  }
+  positions.push(Math.max(0, durationSeconds - 1));
+
+  const samples: WallClockSample[] = [];
+  for (const [i, videoSeconds] of positions.entries()) {
+    job.progress(i / positions.length, `Reading the clock at ${secondsToClock(videoSeconds)}`);
+    const tempImagePath = join(tempDir, `wallclock_${Date.now()}_${Math.round(videoSeconds)}.pgm`);
+    let clock: string | null = null;
+    try {
+      await runFfmpeg(
+        `ffmpeg -ss ${videoSeconds.toFixed(3)} -i "${videoPath}" -vf "${filter}" -vframes 1 "${tempImagePath}" -y 2>&1`,
+        `Wall-clock sample ${secondsToClock(videoSeconds)}: ${filename}`,
+        job.signal
+      );
+      if (existsSync(tempImagePath)) {
+        clock = (await readTimestampImage(tempImagePath, profile, job.signal)).timestamp?.clock || null;
+      }
+    } catch (error) {
+      job.signal.throwIfAborted();
+      logger.error(`  Wall-clock sample at ${secondsToClock(videoSeconds)} failed:`, error);
+    } finally {
+      await execAsync(`rm -f "${tempImagePath}"`);
+    }
+    samples.push({ videoSeconds, clock });
+  }
+
+  return samples;
+}
+
+/**
+ * Build a video's wall-clock index and store it with its metadata
+ * The cached metadata carries a summary (segments, gaps, covered range); the samples are kept next to it
+ */
+async function buildVideoWallClockIndex(job: AnalysisJob, context: JobContext) {
+  const videoPath = job.videoPath;
+  const intervalSeconds = job.intervalSeconds ?? WALL_CLOCK_SAMPLE_SECONDS;
+  const filename = videoPath.split('/').pop() || '';
+  try {
+    // The index is stored in the metadata cache entry, which must exist for the current file content
+    await getVideoMetadata(job, context);
+    const fingerprint = await fingerprintFile(videoPath);
+    const durationSeconds = await getVideoDuration(videoPath);
+    if (!fingerprint || !durationSeconds) {
+      throw new Error('Could not read the video');
+    }
+
+    logger.log(`🕰️  Sampling the clock of ${filename} every ${intervalSeconds}s...`);
+    const samples = await sampleWallClock(videoPath, intervalSeconds, durationSeconds, context);
+    const index = buildWallClockIndex(samples, intervalSeconds, durationSeconds);
+    logger.log(`✅ Wall-clock index of ${filename}: ${index.segments.length} segments, ${index.gaps.length} gaps, ${index.unreadSamples}/${samples.length} samples unread`);
+
+    const videoMetadataCache = loadVideoMetadataCache();
+    const cached = await lookupEntry(videoMetadataCache, videoPath, fingerprint);
+    if (!cached || await fingerprintFile(videoPath) !== fingerprint) {
+      throw new Error('The video changed while it was sampled');
+    }
+    cached.wallClockIndex = index;
+    cached.data.wallClock = summarizeWallClockIndex(index);
+    saveVideoMetadataCache(videoMetadataCache);
+
+    broadcastEvent({ type: 'video-metadata', path: videoPath, metadata: cached.data });
+    broadcastEvent({ type: 'wall-clock-index', path: videoPath, status: 'complete' });
+  } catch (error: any) {
+    if (!context.signal.aborted) {
+      logger.error(`❌ Wall-clock index of ${filename} failed:`, error);
+      broadcastEvent({ type: 'wall-clock-index', path: videoPath, status: 'error', error: error.message });
+    }
+    throw error;
+  }
+}
+
+// Analyze if video is timebolted (with caching)
+async function analyzeVideo(videoPath: string, signal?: AbortSignal) {
+  // Check filename patterns (fast check first)
+  const filename = videoPath.split('/').pop() || '';
+  const hasTimeboltedInName = /timebolted|turbo|FINAL|BEST/i.test(filename);
+
+  // Load manual tracking
+  const fingerprint = await fingerprintFile(videoPath);
+  const isManuallyMarked = (await lookupEntry(loadTimeboltedVideos(), videoPath, fingerprint))?.isTimebolted === true;
+
+  // If manually marked or obvious from filename, skip analysis
+  if (isManuallyMarked || hasTimeboltedInName) {
     return {
       isTimebolted: true,
       detectionMethod: isManuallyMarked ? 'manual' : 'filename'
     };
   }
 
-  // Load cache
-  const cache = loadTimeboltCache();
-
-  // Compute xxHash3 of first 300 bytes for cache validation
-  const fileHash = await getFileHash(videoPath);
-
-  // Check cache first using hash (not mtime - files can be copied/moved)
-  const cachedResult = cache.results[videoPath];
-  if (cachedResult && fileHash && cachedResult.hash === fileHash) {
-    // Hash matches - file content unchanged, use cached result
+  // Check cache first by content (not path or mtime - files can be copied/moved/renamed)
+  const cachedResult = await lookupEntry(loadTimeboltCache(), videoPath, fingerprint);
+  if (cachedResult) {
     return {
       isTimebolted: cachedResult.isTimebolted,
       detectionMethod: cachedResult.method + '-cached'
@@ -1011,17 +1498,16 @@ async function analyzeVideo(videoPath: string) {
 
   // Perform silence analysis
   logger.log(`Analyzing video for timebolt: ${filename}`);
-  const isTimeboltedBySilence = await detectTimeboltBySilence(videoPath);
+  const isTimeboltedBySilence = await detectTimeboltBySilence(videoPath, signal);
 
-  // Update cache with hash only
-  if (fileHash) {
-    cache.results[videoPath] = {
+  // Update cache (reloaded, as other videos were analyzed meanwhile)
+  if (fingerprint) {
+    const cache = loadTimeboltCache();
+    setEntry(cache, fingerprint, videoPath, {
       isTimebolted: isTimeboltedBySilence,
       analyzedAt: new Date().toISOString(),
-      method: 'silence-analysis',
-      hash: fileHash
-    };
-    cache.lastRun = new Date().toISOString();
+      method: 'silence-analysis'
+    });
     saveTimeboltCache(cache);
   }
 
@@ -1031,6 +1517,229 @@ async function analyzeVideo(videoPath: string) {
   };
 }
 
+/**
+ * A video's cached metadata when it was extracted from the current file content, else null
+ * Metadata of a renamed or moved video is returned with its new path and filename
+ */
+async function getCachedVideoMetadata(videoPath: string, videoMetadataCache = loadVideoMetadataCache()): Promise<any> {
+  const cachedMetadata = await lookupEntry(videoMetadataCache, videoPath);
+  return cachedMetadata?.data ? { ...cachedMetadata.data, path: videoPath, filename: videoPath.split('/').pop() } : null;
+}
+
+/**
+ * Get a video's metadata (timebolt analysis, OCR timestamps, duration, size) for a running job, from cache when unchanged
+ * The extraction runs under the job's signal and reports to its progress; callers outside a job queue a metadata job
+ */
+async function getVideoMetadata(job: AnalysisJob, context: JobContext): Promise<any> {
+  const videoPath = job.videoPath;
+  extractingVideos.set(job.id, videoPath);
+  try {
+    const startTime = Date.now();
+
+    // Check cache first
+    const cachedMetadata = await getCachedVideoMetadata(videoPath);
+    if (cachedMetadata) {
+      const responseTime = Date.now() - startTime;
+      logger.log(`✅ Video metadata from cache (${responseTime}ms): ${videoPath.split('/').pop()}`);
+      return cachedMetadata;
+    }
+
+    // Not in cache or content changed - extract metadata
+    logger.log(`🔄 Extracting video metadata: ${videoPath.split('/').pop()}`);
+
+    context.progress(0.05, 'Timebolt analysis');
+    const analysis = await analyzeVideo(videoPath, context.signal);
+    context.progress(0.2, 'Reading the timestamps');
+    const timestampData = await extractTimestampFromVideo(videoPath, context, job.ocrProfile);
+    const fileSizeBytes = getFileSize(videoPath);
+    const fileSize = fileSizeBytes ? formatFileSize(fileSizeBytes) : '';
+
+    const videoData = {
+      path: videoPath,
+      filename: videoPath.split('/').pop(),
+      isTimebolted: analysis.isTimebolted,
+      detectionMethod: analysis.detectionMethod,
+      recordingTime: timestampData?.timestamp || null,
+      endTimestamp: timestampData?.endTimestamp || '',
+      startClock: timestampData?.startClock || '',
+      duration: timestampData?.duration || '',
+      fileSize,
+      fileSizeBytes
+    };
+
+    // Save to cache
+    const fingerprint = await fingerprintFile(videoPath);
+    if (fingerprint) {
+      const videoMetadataCache = loadVideoMetadataCache();
+      setEntry(videoMetadataCache, fingerprint, videoPath, {
+        cachedAt: new Date().toISOString(),
+        data: videoData
+      });
+      saveVideoMetadataCache(videoMetadataCache);
+    }
+
+    const responseTime = Date.now() - startTime;
+    logger.log(`✅ Video metadata extracted (${responseTime}ms): ${videoPath.split('/').pop()}`);
+
+    return videoData;
+  } finally {
+    extractingVideos.delete(job.id);
+  }
+}
+
+/**
+ * Run one analysis job: extract a video's metadata, or sample its clock for the wall-clock index
+ */
+async function runAnalysisJob(job: AnalysisJob, context: JobContext) {
+  if (!existsSync(job.videoPath)) {
+    throw new Error('The video no longer exists');
+  }
+
+  if (job.kind === 'wall-clock-index') {
+    await buildVideoWallClockIndex(job, context);
+    return;
+  }
+
+  const metadata = await getVideoMetadata(job, context);
+  broadcastEvent({ type: 'video-metadata', path: job.videoPath, metadata });
+
+  // Fresh OCR times can change which lesson the recording belongs to
+  await recordingCatalog.refresh([job.videoPath]);
+}
+
+// Analysis jobs, persisted across restarts; their progress is pushed to the dashboard through /api/events
+const analysisJobs = new JobQueue(runAnalysisJob, MAX_CONCURRENT_JOBS, job => broadcastEvent({ type: 'analysis-job', job }));
+
+/**
+ * Queue metadata extraction for videos without metadata for their current content
+ * Files still being recorded or copied are queued once they stop changing
+ * `ocrProfiles` are the OCR profiles that read reprocessed videos before, by path
+ */
+async function queueMetadataExtraction(videoPaths: string[], priority = JOB_PRIORITY.background, ocrProfiles: Record<string, string> = {}) {
+  const videoMetadataCache = loadVideoMetadataCache();
+  for (const videoPath of videoPaths) {
+    const mtime = getFileMtime(videoPath);
+    if (mtime === null) {
+      continue; // Deleted meanwhile
+    }
+    if (Date.now() - mtime < FILE_SETTLE_MS) {
+      setTimeout(() => queueMetadataExtraction([videoPath], priority, ocrProfiles), FILE_SETTLE_MS);
+      continue;
+    }
+    if (!await getCachedVideoMetadata(videoPath, videoMetadataCache)) {
+      analysisJobs.enqueue('metadata', videoPath, priority, ocrProfiles[videoPath] ? { ocrProfile: ocrProfiles[videoPath] } : {});
+    }
+  }
+}
+
+/**
+ * Drop the cached results of videos and queue their extraction again
+ * Times set by hand in the OCR failures panel are kept. Videos being extracted right now are skipped,
+ * as the running extraction would write its result over the invalidation.
+ */
+function reprocessVideos(videoPaths: string[], kind: ReprocessKind): { queued: string[]; busy: string[]; manualKept: number } {
+  const queued = videoPaths.filter(videoPath => !isExtracting(videoPath));
+  const busy = videoPaths.filter(isExtracting);
+  let manualKept = 0;
+  const ocrProfiles: Record<string, string> = {};  // Tried first when the timestamps are read again
+
+  if (kind !== 'timestamps') {
+    const timeboltCache = loadTimeboltCache();
+    queued.forEach(videoPath => deleteEntryAtPath(timeboltCache, videoPath));
+    saveTimeboltCache(timeboltCache);
+  }
+
+  if (kind !== 'timebolt') {
+    const timestampCache = loadTimestampCache();
+    queued.forEach(videoPath => {
+      const fingerprint = timestampCache.paths[videoPath];
+      const previous = entryAtPath(timestampCache, videoPath) || timestampCache.legacy[videoPath];
+      if (previous?.manual) {
+        manualKept++;
+      } else {
+        if (previous?.ocrProfile) {
+          ocrProfiles[videoPath] = previous.ocrProfile;
+        }
+        deleteEntryAtPath(timestampCache, videoPath);
+        if (fingerprint) {
+          rmSync(getOcrDebugDir(fingerprint), { recursive: true, force: true });
+        }
+      }
+    });
+    saveTimestampCache(timestampCache);
+  }
+
+  // The metadata combines both results, so it is extracted again whatever was invalidated
+  const videoMetadataCache = loadVideoMetadataCache();
+  queued.forEach(videoPath => deleteEntryAtPath(videoMetadataCache, videoPath));
+  saveVideoMetadataCache(videoMetadataCache);
+
+  if (existsSync('data/status-cache.json')) {
+    unlinkSync('data/status-cache.json');
+  }
+
+  logger.log(`♻️  Reprocessing ${kind} of ${queued.length} videos${busy.length > 0 ? ` (${busy.length} busy, skipped)` : ''}`);
+  queueMetadataExtraction(queued, JOB_PRIORITY.user, ocrProfiles);
+  return { queued, busy, manualKept };
+}
+
+// Push catalog changes to the dashboard and extract metadata for new videos
+function handleCatalogChange(change: CatalogChange) {
+  const names = (paths: string[]) => paths.map(p => p.split('/').pop() || p);
+  const added = change.added.map(r => r.folder);
+  const removed = names(change.removed);
+  const updated = change.updated.map(r => r.folder);
+
+  logger.log(`📂 Recordings changed on disk: ${added.length} new, ${removed.length} gone, ${updated.length} updated`);
+
+  broadcastEvent({ type: 'recordings-changed', added, removed, updated });
+  // New videos may be old ones moved or renamed, whose cached results follow them
+  relinkCaches(change.newVideos).then(() => queueMetadataExtraction(change.newVideos));
+}
+
+// Cache relinks run one at a time, as each one loads and saves every cache
+let cacheRelinks = Promise.resolve();
+
+/**
+ * Point every cache's path index at the current paths of videos, and upgrade entries from before fingerprints
+ * Fingerprints are computed first, so each cache is relinked and saved without waiting on file reads
+ * (which would let a running job save the same cache in between)
+ */
+function relinkCaches(videoPaths: string[]): Promise<void> {
+  cacheRelinks = cacheRelinks.then(() => relinkCachesNow(videoPaths)).catch(error => {
+    logger.error('❌ Error relinking caches:', error);
+  });
+  return cacheRelinks;
+}
+
+async function relinkCachesNow(videoPaths: string[]) {
+  for (const videoPath of videoPaths) {
+    await fingerprintFile(videoPath);
+  }
+  const caches: [string, () => FingerprintCache<any>][] = [
+    [TIMEBOLT_CACHE_PATH, loadTimeboltCache],
+    [TIMESTAMP_CACHE_PATH, loadTimestampCache],
+    [VIDEO_METADATA_CACHE_PATH, loadVideoMetadataCache],
+    [TIMEBOLTED_VIDEOS_PATH, loadTimeboltedVideos],
+    [ACTIVE_UPLOADS_PATH, loadInterruptedUploadCache]
+  ];
+  for (const [file, load] of caches) {
+    const cache = load();
+    if (await relinkPaths(cache, videoPaths)) {
+      saveFingerprintCache(file, cache);
+    }
+  }
+}
+
+// Recordings in the configured roots, kept current by watching the roots (see startup below)
+const recordingCatalog = new RecordingCatalog(loadRecordingsConfig(), handleCatalogChange);
+
+// Send a live update to every connected dashboard
+function broadcastEvent(event: object) {
+  const data = JSON.stringify(event);
+  eventListeners.forEach(send => send(data));
+}
+
 // Emit progress update to all listeners
 function emitProgress(uploadId: string) {
   const progress = uploadProgress.get(uploadId);
@@ -1107,6 +1816,35 @@ async function handleRequest(req: Request): Promise<Response> {
     });
   }
 
+  // SSE: Live recording changes (new, removed or renamed recordings, extracted metadata)
+  if (path === '/api/events') {
+    const stream = new ReadableStream({
+      start(controller) {
+        const encoder = new TextEncoder();
+        const send = (data: string) => {
+          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+        };
+        eventListeners.add(send);
+
+        // Comment lines keep the idle connection open
+        const keepAlive = setInterval(() => controller.enqueue(encoder.encode(': ping\n\n')), 30000);
+
+        req.signal?.addEventListener('abort', () => {
+          clearInterval(keepAlive);
+          eventListeners.delete(send);
+        });
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      }
+    });
+  }
+
   // Serve static files
   if (path === '/' || path === '/index.html') {
     const html = readFileSync(join(__dirname, '..', 'public', 'index.html'), 'utf-8');
@@ -1161,7 +1899,8 @@ async function handleRequest(req: Request): Promise<Response> {
         return new Response(JSON.stringify({
           recordings: statusCache.recordings,
           timesSimplified: statusCache.timesSimplified,
-          driveFiles: statusCache.driveFiles
+          driveFiles: statusCache.driveFiles,
+          minCoveragePercent: loadRecordingsConfig().minCoveragePercent
         }), { headers });
       } else {
         logger.log('🔄 Source files changed - rebuilding cache');
@@ -1184,7 +1923,7 @@ async function handleRequest(req: Request): Promise<Response> {
       if (!timesMap.has(key)) {
         timesMap.set(key, []);
       }
-      timesMap.get(key).push({ start: time.start, end: time.end });
+      timesMap.get(key).push({ start: time.start, end: time.end, lessons: time.lessons || [] });
     });
     logger.log(`⏱️  Times map built: ${Date.now() - mapStartTime}ms`);
 
@@ -1198,6 +1937,14 @@ async function handleRequest(req: Request): Promise<Response> {
         recording.lessonStart = timeInfoArray[0].start;
         recording.lessonEnd = timeInfoArray[timeInfoArray.length - 1].end;
         recording.lessonTimeRange = combinedRange;
+
+        // Individual lesson blocks (subject, room) - older lecture_recordings.json files don't have them
+        if (!recording.lessons || recording.lessons.length === 0) {
+          recording.lessons = timeInfoArray.flatMap((t: any) => t.lessons);
+        }
+        if (!recording.subjects) {
+          recording.subjects = [...new Set(recording.lessons.map((l: any) => l.subject).filter(Boolean))];
+        }
       }
 
       // Keep video paths but don't process metadata yet
@@ -1232,7 +1979,8 @@ async function handleRequest(req: Request): Promise<Response> {
     return new Response(JSON.stringify({
       recordings,
       timesSimplified,
-      driveFiles
+      driveFiles,
+      minCoveragePercent: loadRecordingsConfig().minCoveragePercent
     }), { headers });
   }
 
@@ -1249,82 +1997,19 @@ async function handleRequest(req: Request): Promise<Response> {
     }
 
     try {
-      // Check if this video is already being processed
-      if (processingVideos.has(videoPath)) {
-        logger.log(`⏳ Video already processing, waiting: ${videoPath.split('/').pop()}`);
-        const result = await processingVideos.get(videoPath);
-        return new Response(JSON.stringify(result), { headers });
+      const cachedMetadata = await getCachedVideoMetadata(videoPath);
+      if (cachedMetadata) {
+        return new Response(JSON.stringify(cachedMetadata), { headers });
+      }
+      if (!existsSync(videoPath)) {
+        return new Response(JSON.stringify({ error: 'Video not found' }), { headers, status: 404 });
       }
 
-      // Create processing promise
-      const processingPromise = (async () => {
-        try {
-          const startTime = Date.now();
-
-          // Load video metadata cache
-          const videoMetadataCache = loadJSON('data/video-metadata-cache.json') || {};
-
-          // Compute hash for cache validation
-          const fileHash = await getFileHash(videoPath);
-
-          // Check cache first
-          const cachedMetadata = videoMetadataCache[videoPath];
-          if (cachedMetadata && fileHash && cachedMetadata.hash === fileHash) {
-            const responseTime = Date.now() - startTime;
-            logger.log(`✅ Video metadata from cache (${responseTime}ms): ${videoPath.split('/').pop()}`);
-            return cachedMetadata.data;
-          }
-
-          // Not in cache or hash changed - extract metadata
-          logger.log(`🔄 Extracting video metadata: ${videoPath.split('/').pop()}`);
-
-          const analysis = await analyzeVideo(videoPath);
-          const timestampData = await extractTimestampFromVideo(videoPath);
-          const fileSizeBytes = getFileSize(videoPath);
-          const fileSize = fileSizeBytes ? formatFileSize(fileSizeBytes) : '';
-
-          const videoData = {
-            path: videoPath,
-            filename: videoPath.split('/').pop(),
-            isTimebolted: analysis.isTimebolted,
-            detectionMethod: analysis.detectionMethod,
-            recordingTime: timestampData?.timestamp || null,
-            endTimestamp: timestampData?.endTimestamp || '',
-            duration: timestampData?.duration || '',
-            fileSize,
-            fileSizeBytes
-          };
-
-          // Save to cache
-          if (fileHash) {
-            videoMetadataCache[videoPath] = {
-              hash: fileHash,
-              cachedAt: new Date().toISOString(),
-              data: videoData
-            };
-            await Bun.write('data/video-metadata-cache.json', JSON.stringify(videoMetadataCache, null, 2));
-          }
-
-          const responseTime = Date.now() - startTime;
-          logger.log(`✅ Video metadata extracted (${responseTime}ms): ${videoPath.split('/').pop()}`);
-
-          return videoData;
-        } finally {
-          // Remove from processing map when done
-          processingVideos.delete(videoPath);
-        }
-      })();
-
-      // Store promise in map
-      processingVideos.set(videoPath, processingPromise);
-
-      // Wait for result
-      const result = await processingPromise;
-      return new Response(JSON.stringify(result), { headers });
-
+      // Extracted by the job queue, ahead of the background work; the result is pushed as a video-metadata event
+      const job = analysisJobs.enqueue('metadata', videoPath, JOB_PRIORITY.visible);
+      return new Response(JSON.stringify({ success: true, queued: true, job }), { headers, status: 202 });
     } catch (error: any) {
       logger.error(`❌ Error extracting video metadata for ${videoPath}:`, error);
-      processingVideos.delete(videoPath); // Clean up on error
       return new Response(JSON.stringify({
         error: 'Failed to extract video metadata',
         message: error.message
@@ -1437,6 +2122,7 @@ async function handleRequest(req: Request): Promise<Response> {
       }
 
       const { uploadSessionUrl, bytesUploaded: startBytes, bytesTotal, studentGroup, date } = uploadState;
+      const sharedWith = uploadState.sharedWith || [];
       const uploadFilename = `${studentGroup} - ${date}.mp4`;
 
       // Initialize progress tracking
@@ -1513,6 +2199,10 @@ async function handleRequest(req: Request): Promise<Response> {
         logger.log(`   🗑️  Removing from active-uploads.json`);
         removeInterruptedUpload(videoPath);
 
+        if (sharedWith.length > 0) {
+          await createDriveShortcuts(file.id, uploadFilename, sharedWith);
+        }
+
         const progress = uploadProgress.get(finalUploadId);
         if (progress) {
           progress.status = 'complete';
@@ -1539,6 +2229,7 @@ async function handleRequest(req: Request): Promise<Response> {
         studentGroup,
         date,
         uploadFilename,
+        sharedWith,
         actualBytesUploaded  // Resume from this position
       ).catch((err) => {
         logger.error(`❌ Background resume error for ${filename}:`, err);
@@ -1599,8 +2290,13 @@ async function handleRequest(req: Request): Promise<Response> {
   // API: Scan filesystem for new files
   if (path === '/api/scan' && req.method === 'POST') {
     try {
-      const { stdout, stderr } = await execAsync('bun run fetch');
-      return new Response(JSON.stringify({ success: true, output: stdout }), { headers });
+      const change = await recordingCatalog.scanAll();
+      return new Response(JSON.stringify({
+        success: true,
+        added: change.added.length,
+        removed: change.removed.length,
+        updated: change.updated.length
+      }), { headers });
     } catch (error: any) {
       return new Response(JSON.stringify({
         success: false,
@@ -1740,19 +2436,15 @@ async function handleRequest(req: Request): Promise<Response> {
         unlinkSync(videoPath);
 
         // Check if folder is now empty (no more videos)
+        // Loose files live directly in a recording root, which must never be deleted
         let shouldDeleteFolder = false;
         let folderError = null;
         try {
+          const recordingsConfig = loadRecordingsConfig();
           const remainingFiles = readdirSync(folderPath);
-          const videoFiles = remainingFiles.filter(f =>
-            f.endsWith('.mp4') ||
-            f.endsWith('.mkv') ||
-            f.endsWith('.avi') ||
-            f.endsWith('.mov') ||
-            f.endsWith('.m4v')
-          );
-
-          if (videoFiles.length === 0) {
+          const videoFiles = remainingFiles.filter(f => isVideoFile(f, recordingsConfig.extensions));
+
+          if (videoFiles.length === 0 && !recordingsConfig.roots.includes(folderPath)) {
             shouldDeleteFolder = true;
             logger.log(`📁 No more videos in ${folderPath}, deleting folder...`);
             await execAsync(`rm -rf "${folderPath}"`);
@@ -1764,7 +2456,7 @@ async function handleRequest(req: Request): Promise<Response> {
         }
 
         // Refresh lecture_recordings.json
-        await execAsync('bun run fetch');
+        await recordingCatalog.refresh([videoPath]);
 
         // Update cache incrementally (remove the video without full rebuild)
         if (existsSync('data/status-cache.json')) {
@@ -1868,15 +2560,24 @@ async function handleRequest(req: Request): Promise<Response> {
 
   // API: Delete folder
   if (path.startsWith('/api/folder/') && req.method === 'DELETE') {
-    const folderPath = decodeURIComponent(path.replace('/api/folder/', ''));
+    const folderPath = decodeURIComponent(path.replace('/api/folder/', '')).replace(/\/+$/, '');
 
     try {
+      // Only recording folders inside a configured root may be deleted, never a root itself
+      const { roots } = loadRecordingsConfig();
+      if (!roots.some(root => folderPath.startsWith(`${root}/`) && !folderPath.substring(root.length + 1).includes('..'))) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Only recording folders inside a configured recording root can be deleted'
+        }), { headers, status: 403 });
+      }
+
       if (existsSync(folderPath)) {
         // Delete folder recursively
         await execAsync(`rm -rf "${folderPath}"`);
 
         // Refresh lecture_recordings.json
-        await execAsync('bun run fetch');
+        await recordingCatalog.refresh([folderPath]);
 
         // Clear status cache to force rebuild
         if (existsSync('data/status-cache.json')) {
@@ -1898,75 +2599,89 @@ async function handleRequest(req: Request): Promise<Response> {
     }
   }
 
-  // API: Rename video
-  if (path === '/api/rename' && req.method === 'POST') {
+  // API: List manual lesson assignments
+  if (path === '/api/assign' && req.method === 'GET') {
     try {
-      const body = await req.json() as RenameVideoBody;
-      const { oldPath, newFilename } = body;
+      return new Response(JSON.stringify({ success: true, overrides: loadAssignmentOverrides() }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
 
-      if (!oldPath || !newFilename) {
+  // API: Manually assign a folder or video to a lesson (or mark it as not a lesson)
+  if (path === '/api/assign' && req.method === 'POST') {
+    try {
+      const body = await req.json() as AssignRecordingBody;
+      const targetPath = (body.path || '').replace(/\/+$/, '');
+      const notLesson = body.notLesson === true;
+
+      if (!targetPath || !existsSync(targetPath)) {
         return new Response(JSON.stringify({
           success: false,
-          error: 'Missing required parameters'
-        }), { headers, status: 400 });
+          error: 'Recording folder or video not found'
+        }), { headers, status: 404 });
       }
 
-      // Validate that old file exists
-      if (!existsSync(oldPath)) {
+      if (!notLesson && (!isValidDate(body.date) || !body.studentGroup || typeof body.studentGroup !== 'string')) {
         return new Response(JSON.stringify({
           success: false,
-          error: 'File not found'
-        }), { headers, status: 404 });
+          error: 'Provide a date (YYYY-MM-DD) and a student group, or notLesson: true'
+        }), { headers, status: 400 });
       }
 
-      // Construct new path
-      const folderPath = oldPath.substring(0, oldPath.lastIndexOf('/'));
-      const newPath = `${folderPath}/${newFilename}`;
-
-      // Check if new file already exists
-      if (existsSync(newPath)) {
+      // A recording root holds loose files of many lessons, so it cannot be assigned as a whole
+      const kind = statSync(targetPath).isDirectory() ? 'folder' : 'video';
+      if (kind === 'folder' && loadRecordingsConfig().roots.includes(targetPath)) {
         return new Response(JSON.stringify({
           success: false,
-          error: 'A file with that name already exists'
-        }), { headers, status: 409 });
+          error: 'A recording root cannot be assigned as a whole; assign its videos individually'
+        }), { headers, status: 400 });
       }
 
-      // Rename the file
-      renameSync(oldPath, newPath);
+      const overrides = loadAssignmentOverrides();
+      overrides[targetPath] = notLesson
+        ? { kind, notLesson: true, assignedAt: new Date().toISOString() }
+        : { kind, date: body.date, studentGroup: body.studentGroup!.trim(), assignedAt: new Date().toISOString() };
+      saveAssignmentOverrides(overrides);
+
+      logger.log(`📌 ${targetPath.split('/').pop()}: ${notLesson ? 'marked as not a lesson' : `assigned to ${body.studentGroup} on ${body.date}`}`);
 
       // Refresh lecture_recordings.json
-      await execAsync('bun run fetch');
+      await recordingCatalog.rematch();
 
-      // Update cache incrementally (rename the video without full rebuild)
-      if (existsSync('data/status-cache.json')) {
-        const statusCache = loadJSON('data/status-cache.json');
-        if (statusCache && statusCache.recordings) {
-          // Update the renamed video in all recordings in cache
-          statusCache.recordings.forEach((rec: any) => {
-            if (rec.videos) {
-              const index = rec.videos.indexOf(oldPath);
-              if (index !== -1) {
-                rec.videos[index] = newPath;
-              }
-            }
-            if (rec.videosWithStatus) {
-              rec.videosWithStatus.forEach((v: any) => {
-                if (v.path === oldPath) {
-                  v.path = newPath;
-                  v.filename = newFilename;
-                }
-              });
-            }
-          });
+      return new Response(JSON.stringify({ success: true, override: overrides[targetPath] }), { headers });
+    } catch (error: any) {
+      logger.error('❌ Error saving assignment:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
 
-          // Update cache mtimes to reflect new state
-          statusCache.recordingsMtime = getFileMtime('data/lecture_recordings.json');
-          statusCache.cachedAt = new Date().toISOString();
+  // API: Remove a manual assignment (automatic matching applies again)
+  if (path === '/api/assign' && req.method === 'DELETE') {
+    try {
+      const targetPath = (new URL(req.url).searchParams.get('path') || '').replace(/\/+$/, '');
+      const overrides = loadAssignmentOverrides();
 
-          Bun.write('data/status-cache.json', JSON.stringify(statusCache, null, 2));
-        }
+      if (!overrides[targetPath]) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'No manual assignment for this path'
+        }), { headers, status: 404 });
       }
 
+      delete overrides[targetPath];
+      saveAssignmentOverrides(overrides);
+      logger.log(`📌 Removed manual assignment: ${targetPath.split('/').pop()}`);
+
+      // Refresh lecture_recordings.json
+      await recordingCatalog.rematch();
+
       return new Response(JSON.stringify({ success: true }), { headers });
     } catch (error: any) {
       return new Response(JSON.stringify({
@@ -1976,31 +2691,276 @@ async function handleRequest(req: Request): Promise<Response> {
     }
   }
 
-  // API: Upload to Google Drive
-  if (path === '/api/upload' && req.method === 'POST') {
+  // API: List "no recording expected" exemptions
+  if (path === '/api/exemptions' && req.method === 'GET') {
     try {
-      const body = await req.json() as UploadVideoBody;
-      const { videoPath, date, uploadId } = body;
+      return new Response(JSON.stringify({ success: true, exemptions: loadExemptions() }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
 
-      // Generate upload ID if not provided
-      const finalUploadId = uploadId || `upload_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // API: Mark a lesson (or a date range) as not expected to be recorded
+  if (path === '/api/exemptions' && req.method === 'POST') {
+    try {
+      const body = await req.json() as CreateExemptionBody;
+      const to = body.to || body.from;
+      const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
 
-      if (!videoPath || !date) {
+      if (!isValidDate(body.from) || !isValidDate(to) || to < body.from) {
         return new Response(JSON.stringify({
           success: false,
-          error: 'Missing required parameters'
+          error: 'Provide "from" (and optionally "to") as YYYY-MM-DD, with "to" not before "from"'
         }), { headers, status: 400 });
       }
-
-      // Validate file exists
-      if (!existsSync(videoPath)) {
+      if (!reason) {
         return new Response(JSON.stringify({
           success: false,
-          error: 'Video file not found'
-        }), { headers, status: 404 });
+          error: 'A reason is required (e.g. "Cancelled", "Exam", "Holiday")'
+        }), { headers, status: 400 });
       }
 
-      // Extract filename and determine student group from filename
+      const exemption = {
+        id: `exempt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        from: body.from,
+        to,
+        ...(body.studentGroup ? { studentGroup: body.studentGroup.trim() } : {}),
+        reason,
+        createdAt: new Date().toISOString()
+      };
+      const exemptions = loadExemptions();
+      exemptions.push(exemption);
+      saveExemptions(exemptions);
+
+      logger.log(`🚫 No recording expected: ${exemption.studentGroup || 'all groups'} ${exemption.from}${to !== exemption.from ? ` - ${to}` : ''} (${reason})`);
+
+      // Refresh lecture_recordings.json
+      await recordingCatalog.rematch();
+
+      return new Response(JSON.stringify({ success: true, exemption }), { headers });
+    } catch (error: any) {
+      logger.error('❌ Error saving exemption:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Remove an exemption
+  if (path === '/api/exemptions' && req.method === 'DELETE') {
+    try {
+      const id = new URL(req.url).searchParams.get('id');
+      const exemptions = loadExemptions();
+      const remaining = exemptions.filter(e => e.id !== id);
+
+      if (remaining.length === exemptions.length) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Exemption not found'
+        }), { headers, status: 404 });
+      }
+
+      saveExemptions(remaining);
+      logger.log(`🚫 Removed exemption ${id}`);
+
+      // Refresh lecture_recordings.json
+      await recordingCatalog.rematch();
+
+      return new Response(JSON.stringify({ success: true }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Schedule changes detected by past fetches (newest first)
+  if (path === '/api/schedule-changes' && req.method === 'GET') {
+    try {
+      const { history } = loadScheduleChangeLog();
+      return new Response(JSON.stringify({ success: true, history }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Rename video
+  if (path === '/api/rename' && req.method === 'POST') {
+    try {
+      const body = await req.json() as RenameVideoBody;
+      const { oldPath, newFilename } = body;
+
+      if (!oldPath || !newFilename) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Missing required parameters'
+        }), { headers, status: 400 });
+      }
+
+      // Validate that old file exists
+      if (!existsSync(oldPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'File not found'
+        }), { headers, status: 404 });
+      }
+
+      // Construct new path
+      const folderPath = oldPath.substring(0, oldPath.lastIndexOf('/'));
+      const newPath = `${folderPath}/${newFilename}`;
+
+      // Check if new file already exists
+      if (existsSync(newPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'A file with that name already exists'
+        }), { headers, status: 409 });
+      }
+
+      // Rename the file
+      renameSync(oldPath, newPath);
+      renameAssignmentOverride(oldPath, newPath);
+
+      // Refresh lecture_recordings.json
+      await recordingCatalog.refresh([oldPath, newPath]);
+
+      // Update cache incrementally (rename the video without full rebuild)
+      if (existsSync('data/status-cache.json')) {
+        const statusCache = loadJSON('data/status-cache.json');
+        if (statusCache && statusCache.recordings) {
+          // Update the renamed video in all recordings in cache
+          statusCache.recordings.forEach((rec: any) => {
+            if (rec.videos) {
+              const index = rec.videos.indexOf(oldPath);
+              if (index !== -1) {
+                rec.videos[index] = newPath;
+              }
+            }
+            if (rec.videosWithStatus) {
+              rec.videosWithStatus.forEach((v: any) => {
+                if (v.path === oldPath) {
+                  v.path = newPath;
+                  v.filename = newFilename;
+                }
+              });
+            }
+          });
+
+          // Update cache mtimes to reflect new state
+          statusCache.recordingsMtime = getFileMtime('data/lecture_recordings.json');
+          statusCache.cachedAt = new Date().toISOString();
+
+          Bun.write('data/status-cache.json', JSON.stringify(statusCache, null, 2));
+        }
+      }
+
+      return new Response(JSON.stringify({ success: true }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Join the parts of a split recording into one file
+  if (path === '/api/concat' && req.method === 'POST') {
+    try {
+      const body = await req.json() as ConcatVideosBody;
+      const { videos, filename, deleteParts } = body;
+      const recordingsConfig = loadRecordingsConfig();
+
+      if (!Array.isArray(videos) || videos.length < 2 || !filename) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Provide at least two videos and a filename'
+        }), { headers, status: 400 });
+      }
+      const extensions = recordingsConfig.extensions.filter(extension => STREAM_COPY_FORMATS[extension]);
+      if (!SAFE_FILENAME.test(filename) || filename.startsWith('.') || !isVideoFile(filename, extensions)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `The filename may only contain letters, digits, spaces and . _ , + - ( ) [ ], and must end in ${extensions.join(', ')}`
+        }), { headers, status: 400 });
+      }
+      if (videos.some(video => !recordingCatalog.entryPathFor(video) || !isVideoFile(video, recordingsConfig.extensions))) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Only videos inside a configured recording root can be joined'
+        }), { headers, status: 403 });
+      }
+      const missing = videos.find(video => !existsSync(video));
+      if (missing) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `File not found: ${missing.split('/').pop()}`
+        }), { headers, status: 404 });
+      }
+
+      const outputPath = join(dirname(videos[0]), filename);
+      if (existsSync(outputPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'A file with that name already exists'
+        }), { headers, status: 409 });
+      }
+
+      logger.log(`🧩 Joining ${videos.length} parts into ${filename}...`);
+      await concatVideos(videos, outputPath);
+      logger.log(`✅ Joined ${videos.length} parts into ${outputPath}`);
+
+      if (deleteParts) {
+        // A manual assignment of the first part carries over to the joined file
+        renameAssignmentOverride(videos[0], outputPath);
+        videos.forEach(video => unlinkSync(video));
+        logger.log(`🗑️  Deleted ${videos.length} joined parts`);
+      }
+
+      await recordingCatalog.refresh([outputPath, ...videos]);
+
+      return new Response(JSON.stringify({ success: true, path: outputPath }), { headers });
+    } catch (error: any) {
+      logger.error('❌ Error joining videos:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Upload to Google Drive
+  if (path === '/api/upload' && req.method === 'POST') {
+    try {
+      const body = await req.json() as UploadVideoBody;
+      const { videoPath, date, uploadId } = body;
+
+      // Generate upload ID if not provided
+      const finalUploadId = uploadId || `upload_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      if (!videoPath || !date) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Missing required parameters'
+        }), { headers, status: 400 });
+      }
+
+      // Validate file exists
+      if (!existsSync(videoPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Video file not found'
+        }), { headers, status: 404 });
+      }
+
+      // Extract filename and determine student group from filename
       const filename = videoPath.split('/').pop() || '';
 
       // Extract student group from filename (first word before " -")
@@ -2049,6 +3009,9 @@ async function handleRequest(req: Request): Promise<Response> {
       // Prepare upload - use original filename to preserve suffixes like _01, _02, etc.
       const uploadFilename = filename;
 
+      // Joint lesson: upload once here, other groups get shortcuts when the upload completes
+      const sharedWith = await getSharedGroups(videoPath, studentGroup, date);
+
       // Get file size for progress tracking
       const fileStats = statSync(videoPath);
       const totalBytes = fileStats.size;
@@ -2066,6 +3029,9 @@ async function handleRequest(req: Request): Promise<Response> {
       emitProgress(finalUploadId);
 
       logger.log(`📤 Uploading ${filename} as ${uploadFilename} to ${studentGroup} folder (${formatFileSize(totalBytes)})...`);
+      if (sharedWith.length > 0) {
+        logger.log(`🔗 Joint lesson - shortcuts will be created for ${sharedWith.join(', ')}`);
+      }
 
       // Get access token for direct API calls
       const accessToken = await oAuth2Client.getAccessToken();
@@ -2098,19 +3064,20 @@ async function handleRequest(req: Request): Promise<Response> {
       logger.log(`💾 Saving initial upload state to active-uploads.json (0 bytes uploaded)`);
 
       // Save interrupted upload state (persistent across restarts)
-      saveInterruptedUpload(videoPath, {
+      await saveInterruptedUpload(videoPath, {
         videoPath,
         uploadSessionUrl: uploadUrl,
         bytesUploaded: 0,
         bytesTotal: totalBytes,
         studentGroup,
         date,
+        sharedWith,
         interruptedAt: new Date().toISOString()
       });
       logger.log(`✅ Initial state saved to disk`);
 
       // Start upload in background (don't await - return immediately)
-      performBackgroundUpload(videoPath, uploadUrl, totalBytes, finalUploadId, studentGroup, date, uploadFilename).catch((err) => {
+      performBackgroundUpload(videoPath, uploadUrl, totalBytes, finalUploadId, studentGroup, date, uploadFilename, sharedWith).catch((err) => {
         logger.error(`❌ Background upload error for ${filename}:`, err);
       });
 
@@ -2118,6 +3085,7 @@ async function handleRequest(req: Request): Promise<Response> {
       return new Response(JSON.stringify({
         success: true,
         uploadId: finalUploadId,
+        sharedWith,
         message: 'Upload started in background'
       }), { headers });
 
@@ -2184,16 +3152,551 @@ async function handleRequest(req: Request): Promise<Response> {
     }
   }
 
+  // API: Silence trim jobs and the default settings
+  if (path === '/api/silence-trim' && req.method === 'GET') {
+    try {
+      return new Response(JSON.stringify({
+        success: true,
+        defaults: loadRecordingsConfig().silenceTrim,
+        jobs: Array.from(silenceTrimJobs.values())
+      }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Start cutting the silences out of a video (runs in the background)
+  if (path === '/api/silence-trim' && req.method === 'POST') {
+    try {
+      const body = await req.json() as SilenceTrimBody;
+      const { videoPath } = body;
+
+      if (!videoPath || !recordingCatalog.entryPathFor(videoPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Only videos inside a configured recording root can be trimmed'
+        }), { headers, status: 403 });
+      }
+      if (!existsSync(videoPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'File not found'
+        }), { headers, status: 404 });
+      }
+
+      const settings: SilenceTrimConfig = { ...loadRecordingsConfig().silenceTrim };
+      (['noiseDb', 'minSilenceSeconds', 'paddingSeconds'] as const).forEach(key => {
+        if (body[key] !== undefined) {
+          settings[key] = body[key]!;
+        }
+      });
+      const errors = validateSilenceTrim(settings);
+      if (errors.length > 0) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: errors.join('; ')
+        }), { headers, status: 400 });
+      }
+
+      if (existsSync(getSilenceTrimOutputPath(videoPath))) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `${getSilenceTrimOutputPath(videoPath).split('/').pop()} already exists`
+        }), { headers, status: 409 });
+      }
+      const running = Array.from(silenceTrimJobs.values()).find(j =>
+        j.videoPath === videoPath && (j.status === 'detecting' || j.status === 'rendering')
+      );
+      if (running) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'This video is already being trimmed'
+        }), { headers, status: 409 });
+      }
+
+      const job: SilenceTrimJob = {
+        id: `trim_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        videoPath,
+        settings,
+        status: 'detecting'
+      };
+      silenceTrimJobs.set(job.id, job);
+      runSilenceTrimJob(job);
+
+      return new Response(JSON.stringify({ success: true, job }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Plan cutting a video down to its lesson, from the schedule and the video's burned-in clock
+  if (path === '/api/trim-to-lesson' && req.method === 'GET') {
+    try {
+      const params = new URL(req.url).searchParams;
+      const videoPath = params.get('path') || '';
+      const date = params.get('date') || '';
+      const studentGroup = params.get('group') || '';
+
+      if (!videoPath || !recordingCatalog.entryPathFor(videoPath) || !existsSync(videoPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Video not found in the recording folders'
+        }), { headers, status: 404 });
+      }
+
+      const lesson = (loadJSON('data/times_simplified.json') || []).find((l: any) => l.date === date && l.studentGroup === studentGroup);
+      if (!lesson) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `${studentGroup} has no lesson on ${date}`
+        }), { headers, status: 404 });
+      }
+
+      // Only a cached timestamp for the current file content can be trusted
+      const cached = await lookupEntry(loadTimestampCache(), videoPath);
+      if (!cached?.timestamp) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'The start time of this video has not been read yet; wait until its metadata is extracted'
+        }), { headers, status: 400 });
+      }
+      const [videoDate, videoTime] = cached.timestamp.split(' ');
+      if (videoDate !== date) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `The video was recorded on ${videoDate}, not on ${date}`
+        }), { headers, status: 400 });
+      }
+      if ((await analyzeVideo(videoPath)).isTimebolted) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Timebolted videos have their silences cut out, so their clock no longer matches the lesson times'
+        }), { headers, status: 400 });
+      }
+
+      const durationSeconds = cached.durationSeconds ?? await getVideoDuration(videoPath);
+      if (!durationSeconds) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Could not read the video duration'
+        }), { headers, status: 500 });
+      }
+
+      // Only the lesson blocks the video recorded, not the whole day from the first lesson to the last
+      const clock = {
+        startClock: cached.startClock || videoTime,
+        endClock: cached.endClock || cached.endTimestamp || undefined,
+        durationSeconds
+      };
+      const blocks: { start: string; end: string }[] = lesson.lessons?.length ? lesson.lessons : [{ start: lesson.start, end: lesson.end }];
+      const recorded = findRecordedLesson(clock, blocks);
+      if (!recorded) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `The video does not overlap any ${studentGroup} lesson on ${date}`
+        }), { headers, status: 400 });
+      }
+
+      const plan = planLessonTrim(clock, recorded.start, recorded.end);
+
+      return new Response(JSON.stringify({ success: true, plan }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Cut a video to the confirmed in/out points (stream copy, written next to the original)
+  if (path === '/api/trim-to-lesson' && req.method === 'POST') {
+    try {
+      const body = await req.json() as TrimToLessonBody;
+      const { videoPath, inSeconds, outSeconds } = body;
+
+      if (!videoPath || !recordingCatalog.entryPathFor(videoPath) || !existsSync(videoPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Video not found in the recording folders'
+        }), { headers, status: 404 });
+      }
+      if (typeof inSeconds !== 'number' || typeof outSeconds !== 'number' || inSeconds < 0 || outSeconds <= inSeconds) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Provide inSeconds and outSeconds with 0 <= inSeconds < outSeconds'
+        }), { headers, status: 400 });
+      }
+
+      // The copy keeps the original's container, which accepts its codecs
+      const filename = videoPath.split('/').pop() || '';
+      const extension = extname(filename);
+      if (!STREAM_COPY_FORMATS[extension.toLowerCase()]) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `Only ${Object.keys(STREAM_COPY_FORMATS).join(', ')} videos can be trimmed without re-encoding`
+        }), { headers, status: 400 });
+      }
+      const outputPath = join(dirname(videoPath), `${filename.slice(0, -extension.length)} (lesson)${extension}`);
+      if (existsSync(outputPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `${outputPath.split('/').pop()} already exists`
+        }), { headers, status: 409 });
+      }
+
+      logger.log(`⏱️  Trimming ${filename} to ${secondsToClock(inSeconds)}-${secondsToClock(outSeconds)}...`);
+      await cutVideoSection(videoPath, outputPath, inSeconds, outSeconds);
+      logger.log(`✅ Trimmed to lesson: ${outputPath}`);
+
+      await recordingCatalog.refresh([outputPath]);
+
+      return new Response(JSON.stringify({ success: true, path: outputPath }), { headers });
+    } catch (error: any) {
+      logger.error('❌ Error trimming to lesson:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Get a video's wall-clock index (video time -> clock map with gaps and breaks)
+  if (path === '/api/wall-clock-index' && req.method === 'GET') {
+    const videoPath = new URL(req.url).searchParams.get('path') || '';
+    const cached = existsSync(videoPath) ? await lookupEntry(loadVideoMetadataCache(), videoPath) : null;
+    const index = cached?.wallClockIndex || null;
+
+    return new Response(JSON.stringify({
+      success: true,
+      index,
+      building: analysisJobs.activeJob(videoPath, 'wall-clock-index') !== null
+    }), { headers });
+  }
+
+  // API: Queue sampling the clock through a whole video; the result arrives as live updates
+  if (path === '/api/wall-clock-index' && req.method === 'POST') {
+    try {
+      const body = await req.json() as WallClockIndexBody;
+      const { videoPath } = body;
+      const intervalSeconds = body.intervalSeconds ?? WALL_CLOCK_SAMPLE_SECONDS;
+
+      if (!videoPath || !recordingCatalog.entryPathFor(videoPath) || !existsSync(videoPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Video not found in the recording folders'
+        }), { headers, status: 404 });
+      }
+      if (typeof intervalSeconds !== 'number' || intervalSeconds < 5) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'intervalSeconds must be at least 5'
+        }), { headers, status: 400 });
+      }
+      if (analysisJobs.activeJob(videoPath, 'wall-clock-index')) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'The wall-clock index of this video is already being built'
+        }), { headers, status: 409 });
+      }
+
+      const job = analysisJobs.enqueue('wall-clock-index', videoPath, JOB_PRIORITY.user, { intervalSeconds });
+
+      return new Response(JSON.stringify({ success: true, job }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Teach the built-in recognizer the glyphs of the timestamp shown at the start of a video
+  if (path === '/api/digit-templates' && req.method === 'POST') {
+    const workDir = join(__dirname, 'temp', `train_${Date.now()}`);
+    try {
+      const { videoPath, text } = await req.json() as TrainDigitsBody;
+
+      if (!videoPath || !recordingCatalog.entryPathFor(videoPath) || !existsSync(videoPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Video not found in the recording folders'
+        }), { headers, status: 404 });
+      }
+      if (typeof text !== 'string' || !parseOcrTimestamp(text)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Type the timestamp as shown in the video, e.g. "2025-10-14 10:07:03"'
+        }), { headers, status: 400 });
+      }
+
+      const profile = selectOcrProfiles(loadRecordingsConfig(), videoPath, entryAtPath(loadTimestampCache(), videoPath)?.ocrProfile)[0];
+      const { width, height } = await probeVideo(videoPath);
+      mkdirSync(workDir, { recursive: true });
+      await extractStartFrames(videoPath, [profile], width, height, workDir);
+
+      // The overlay may appear a few frames late: learn from the first frame that splits into the typed characters
+      const store = loadDigitTemplates();
+      const templates = store[profile.name] || (store[profile.name] = {});
+      let learned: string[] | null = null;
+      let lastError = 'No frames could be read from the video';
+      for (let frame = 1; frame <= START_FRAMES.length && !learned; frame++) {
+        const imagePath = join(workDir, `start_0_${frame}.pgm`);
+        if (!existsSync(imagePath)) {
+          continue;
+        }
+        try {
+          learned = addTrainingSample(templates, readPgm(readFileSync(imagePath)), text);
+        } catch (error: any) {
+          lastError = error.message;
+        }
+      }
+      if (!learned) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: `${lastError}. Check the text, or the "${profile.name}" OCR profile region.`
+        }), { headers, status: 400 });
+      }
+
+      saveDigitTemplates(store);
+      logger.log(`🔢 Learned "${learned.join('')}" for OCR profile "${profile.name}" from ${videoPath.split('/').pop()}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        profile: profile.name,
+        learned,
+        known: Object.keys(templates).sort()
+      }), { headers });
+    } catch (error: any) {
+      logger.error('❌ Error training the digit recognizer:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  // API: Videos whose timestamps OCR could not read, with what was read and the kept frames
+  if (path === '/api/ocr-failures' && req.method === 'GET') {
+    try {
+      const entries = loadTimestampCache().entries;
+      const failures = Object.entries(entries)
+        .filter(([, entry]) =>
+          !entry.manual && (!entry.timestamp || (entry.durationSeconds && !entry.endTimestamp)) &&
+          recordingCatalog.entryPathFor(entry.path) && existsSync(entry.path))
+        .map(([fingerprint, entry]) => ({
+          videoPath: entry.path,
+          filename: entry.path.split('/').pop() || '',
+          missing: entry.timestamp ? 'end' : 'start',
+          timestamp: entry.timestamp,
+          startClock: entry.startClock || '',
+          endClock: entry.endClock || '',
+          ocrProfile: entry.ocrProfile || null,
+          extractedAt: entry.extractedAt,
+          attempts: entry.ocrAttempts || [],
+          // Times typed for other content at the same path (the file was replaced), which are not applied to this one
+          replacedManual: Object.entries(entries)
+            .filter(([other, otherEntry]) => other !== fingerprint && otherEntry.manual && otherEntry.path === entry.path)
+            .map(([, otherEntry]) => ({ timestamp: otherEntry.timestamp, endClock: otherEntry.endClock || '' }))[0] || null,
+          images: (entry.debugImages || []).filter((image: { file: string }) => existsSync(join(getOcrDebugDir(fingerprint), image.file)))
+        }))
+        .sort((a, b) => a.filename.localeCompare(b.filename));
+
+      return new Response(JSON.stringify({ success: true, failures }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: One kept frame of a failed OCR read
+  if (path === '/api/ocr-failures/image' && req.method === 'GET') {
+    const videoPath = url.searchParams.get('path') || '';
+    const file = url.searchParams.get('file') || '';
+    const cache = loadTimestampCache();
+    const fingerprint = cache.paths[videoPath];
+    const entry = entryAtPath(cache, videoPath);
+    // Only files listed in the cache entry, so the path cannot leave the video's debug directory
+    const known = (entry?.debugImages || []).some((image: { file: string }) => image.file === file);
+    const imagePath = join(getOcrDebugDir(fingerprint || 'unknown'), file);
+    if (!known || !existsSync(imagePath)) {
+      return new Response('Not found', { status: 404 });
+    }
+    return new Response(Bun.file(imagePath), {
+      headers: { 'Content-Type': 'image/png', 'Cache-Control': 'no-cache' }
+    });
+  }
+
+  // API: Set a video's start and end times by hand when OCR cannot read them
+  if (path === '/api/ocr-failures/correct' && req.method === 'POST') {
+    try {
+      const { videoPath, start, end } = await req.json() as TimestampCorrectionBody;
+
+      if (!videoPath || !recordingCatalog.entryPathFor(videoPath) || !existsSync(videoPath)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Video not found in the recording folders'
+        }), { headers, status: 404 });
+      }
+      const [startDate, startTime = ''] = typeof start === 'string' ? start.trim().split(/\s+/) : [];
+      const startClock = parseClockInput(startTime);
+      if (!isValidDate(startDate) || !startClock) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Start must be a date and time, e.g. "2025-10-14 10:07" or "2025-10-14 10:07:03"'
+        }), { headers, status: 400 });
+      }
+      const endClock = end && end.trim() ? parseClockInput(end) : '';
+      if (endClock === null) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'End must be a time, e.g. "11:28" or "11:28:40"'
+        }), { headers, status: 400 });
+      }
+
+      const fingerprint = await fingerprintFile(videoPath);
+      if (!fingerprint) {
+        throw new Error(`Cannot read ${videoPath}`);
+      }
+      const cache = loadTimestampCache();
+      const previous = await lookupEntry(cache, videoPath, fingerprint);
+      const durationSeconds = previous?.durationSeconds || (await probeVideo(videoPath)).durationSeconds;
+      const corrected = {
+        timestamp: `${startDate} ${startClock.substring(0, 5)}`,
+        duration: durationSeconds ? formatFuzzyDuration(durationSeconds) : '',
+        endTimestamp: endClock.substring(0, 5),
+        startClock,
+        endClock,
+        durationSeconds,
+        ocrProfile: previous?.ocrProfile || null,
+        extractedAt: previous?.extractedAt || null,
+        correctedAt: new Date().toISOString(),
+        manual: true
+      };
+      setEntry(cache, fingerprint, videoPath, corrected);
+      saveTimestampCache(cache);
+      rmSync(getOcrDebugDir(fingerprint), { recursive: true, force: true });
+
+      // Update the cached metadata in place, which keeps its wall-clock index
+      const videoMetadataCache = loadVideoMetadataCache();
+      const cachedMetadata = await lookupEntry(videoMetadataCache, videoPath, fingerprint);
+      let metadata = null;
+      if (cachedMetadata) {
+        metadata = Object.assign(cachedMetadata.data, {
+          recordingTime: corrected.timestamp,
+          endTimestamp: corrected.endTimestamp,
+          startClock,
+          duration: corrected.duration
+        });
+        saveVideoMetadataCache(videoMetadataCache);
+        broadcastEvent({ type: 'video-metadata', path: videoPath, metadata });
+      } else {
+        // Extracted with the corrected times by a job, which pushes the metadata when done
+        analysisJobs.enqueue('metadata', videoPath, JOB_PRIORITY.user);
+      }
+      logger.log(`✏️  Timestamps of ${videoPath.split('/').pop()} set by hand: ${corrected.timestamp}${endClock ? `-${endClock}` : ''}`);
+
+      // The new times can change which lesson the recording belongs to
+      await recordingCatalog.refresh([videoPath]);
+
+      return new Response(JSON.stringify({ success: true, metadata }), { headers });
+    } catch (error: any) {
+      logger.error('❌ Error correcting timestamps:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Analysis jobs, active and recently finished
+  if (path === '/api/jobs' && req.method === 'GET') {
+    return new Response(JSON.stringify({ success: true, jobs: analysisJobs.list() }), { headers });
+  }
+
+  // API: Cancel an analysis job, killing its ffmpeg/tesseract processes when it is running
+  if (path === '/api/jobs/cancel' && req.method === 'POST') {
+    try {
+      const { id } = await req.json() as CancelJobBody;
+      const job = analysisJobs.cancel(id);
+      if (!job) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'No such queued or running job'
+        }), { headers, status: 404 });
+      }
+      logger.log(`⛔ Cancelled ${job.kind} job of ${job.videoPath.split('/').pop()}`);
+      return new Response(JSON.stringify({ success: true, job }), { headers });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
+  // API: Extract the metadata of one video, one lesson or every video again
+  if (path === '/api/reprocess' && req.method === 'POST') {
+    try {
+      const { kind, videoPath, date, group } = await req.json() as ReprocessBody;
+
+      if (!['timebolt', 'timestamps', 'metadata'].includes(kind)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'kind must be "timebolt", "timestamps" or "metadata"'
+        }), { headers, status: 400 });
+      }
+
+      let videoPaths: string[];
+      if (videoPath) {
+        if (!recordingCatalog.entryPathFor(videoPath) || !existsSync(videoPath)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Video not found in the recording folders'
+          }), { headers, status: 404 });
+        }
+        videoPaths = [videoPath];
+      } else {
+        if ((date || group) && (!isValidDate(date) || !group)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'A lesson needs both a date (YYYY-MM-DD) and a group'
+          }), { headers, status: 400 });
+        }
+        const recordings: LectureRecording[] = loadJSON('data/lecture_recordings.json') || [];
+        const videos = recordings
+          .filter(recording => !date || (recording.date === date && recording.studentGroup === group))
+          .flatMap(recording => recording.videos || []);
+        videoPaths = [...new Set(videos)].filter(p => existsSync(p));
+      }
+
+      const result = reprocessVideos(videoPaths, kind);
+      return new Response(JSON.stringify({ success: true, ...result }), { headers });
+    } catch (error: any) {
+      logger.error('❌ Error reprocessing videos:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message
+      }), { headers, status: 500 });
+    }
+  }
+
   // API: Mark as timebolted
   if (path === '/api/mark-timebolted' && req.method === 'POST') {
     try {
       const body = await req.json() as MarkTimeboltedBody;
       const { videoPath, isTimebolted } = body;
 
-      const tracking = loadJSON('data/timebolted-videos.json') || {};
-      tracking[videoPath] = isTimebolted;
-
-      Bun.write('data/timebolted-videos.json', JSON.stringify(tracking, null, 2));
+      await markTimebolted(videoPath, isTimebolted);
 
       return new Response(JSON.stringify({ success: true }), { headers });
     } catch (error: any) {
@@ -2266,13 +3769,19 @@ try {
   logger.error('Error writing PID file:', error);
 }
 
-// Clean up debug frames on server start
+// Clean up debug frames on server start, keeping those of videos still waiting for a read or a correction
 const debugDir = join(__dirname, 'debug_frames');
 try {
-  await execAsync(`rm -rf "${debugDir}"`);
-  logger.log('🗑️  Cleared debug frames directory');
+  if (existsSync(debugDir)) {
+    const pending = new Set(Object.entries(loadTimestampCache().entries)
+      .filter(([, entry]) => entry.debugImages?.length && existsSync(entry.path))
+      .map(([fingerprint]) => fingerprint));
+    const stale = readdirSync(debugDir).filter(name => !pending.has(name));
+    stale.forEach(name => rmSync(join(debugDir, name), { recursive: true, force: true }));
+    logger.log(`🗑️  Cleared ${stale.length} stale debug frame entries, kept ${pending.size}`);
+  }
 } catch (error) {
-  // Ignore if directory doesn't exist
+  logger.error('Error cleaning up debug frames:', error);
 }
 
 // Start server
@@ -2288,6 +3797,7 @@ logger.log(`📊 Open your browser to view the dashboard`);
 // Handle server shutdown gracefully
 process.on('SIGINT', async () => {
   logger.log('\n⏹️  Server stopped by user (Ctrl+C)');
+  analysisJobs.flush();  // Queue changes not yet written to disk
 
   // Kill all child processes (including ffmpeg/ffprobe spawned by this server)
   try {
@@ -2317,6 +3827,7 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   logger.log('\n⏹️  Server stopped (SIGTERM)');
+  analysisJobs.flush();  // Queue changes not yet written to disk
 
   // Kill all child processes
   try {
@@ -2344,122 +3855,45 @@ process.on('SIGTERM', async () => {
   process.exit(0);
 });
 
-// Background video scanning on server startup
+// Build the recording catalog on server startup, then keep it current by watching the recording roots
+// Every video found is queued for metadata extraction (videos with cached metadata are skipped)
 (async () => {
   try {
-    logger.log('\n🎬 Starting background video scanning...');
-
-    // Load all recordings
-    const recordings = loadJSON('data/lecture_recordings.json') || [];
-
-    // Collect all video paths
-    const allVideoPaths: string[] = [];
-    recordings.forEach((rec: any) => {
-      if (rec.videos && rec.videos.length > 0) {
-        allVideoPaths.push(...rec.videos);
-      }
-    });
-
-    if (allVideoPaths.length === 0) {
-      logger.log('📹 No videos found to scan');
-      return;
-    }
-
-    logger.log(`📹 Found ${allVideoPaths.length} videos total`);
-
-    // Load existing cache
-    const videoMetadataCache = loadJSON('data/video-metadata-cache.json') || {};
-
-    // Check which videos need processing
-    const videosToProcess: string[] = [];
-    const cachedVideos: string[] = [];
-
-    for (const videoPath of allVideoPaths) {
-      const fileHash = await getFileHash(videoPath);
-
-      // Skip files that don't exist (fileHash will be null)
-      if (!fileHash) {
-        logger.log(`⚠️  Skipping missing file: ${videoPath.split('/').pop()}`);
-        continue;
-      }
-
-      const cachedMetadata = videoMetadataCache[videoPath];
-
-      if (cachedMetadata && cachedMetadata.hash === fileHash) {
-        cachedVideos.push(videoPath);
-      } else {
-        videosToProcess.push(videoPath);
-      }
-    }
+    // Jobs left by the previous run go first; their catalog refreshes wait for the scan below
+    analysisJobs.start();
+    logger.log(`⚙️  Analysis jobs: ${analysisJobs.list().filter(job => job.status === 'queued').length} restored`);
 
-    logger.log(`✅ ${cachedVideos.length} videos already cached`);
-    logger.log(`🔄 ${videosToProcess.length} videos need processing`);
+    logger.log('\n🎬 Scanning recording folders...');
+    const change = await recordingCatalog.scanAll();
+    const allVideoPaths = change.added.flatMap(recording => recording.videos);
+    logger.log(`📹 Found ${change.added.length} recordings with ${allVideoPaths.length} videos`);
 
-    if (videosToProcess.length === 0) {
-      logger.log('✨ All videos are up to date!\n');
-      return;
-    }
+    // The scan relinked the caches to the videos found (see handleCatalogChange); stale entries are known after that
+    await relinkCaches(allVideoPaths);
 
-    // Process videos sequentially
-    let processed = 0;
-    for (const videoPath of videosToProcess) {
-      try {
-        processed++;
-        const filename = videoPath.split('/').pop() || '';
-        logger.log(`\n📹 [${processed}/${videosToProcess.length}] Processing: ${filename}`);
-
-        // Use the same logic as /api/video-metadata
-        const analysis = await analyzeVideo(videoPath);
-        const timestampData = await extractTimestampFromVideo(videoPath);
-        const fileSizeBytes = getFileSize(videoPath);
-        const fileSize = fileSizeBytes ? formatFileSize(fileSizeBytes) : '';
-
-        const videoData = {
-          path: videoPath,
-          filename,
-          isTimebolted: analysis.isTimebolted,
-          detectionMethod: analysis.detectionMethod,
-          recordingTime: timestampData?.timestamp || null,
-          endTimestamp: timestampData?.endTimestamp || '',
-          duration: timestampData?.duration || '',
-          fileSize,
-          fileSizeBytes
-        };
+    recordingCatalog.watch();
+    logger.log('👀 Watching recording folders for changes');
 
-        // Save to cache
-        const fileHash = await getFileHash(videoPath);
-        if (fileHash) {
-          videoMetadataCache[videoPath] = {
-            hash: fileHash,
-            cachedAt: new Date().toISOString(),
-            data: videoData
-          };
-          await Bun.write('data/video-metadata-cache.json', JSON.stringify(videoMetadataCache, null, 2));
-        }
+    const videoMetadataCache = loadVideoMetadataCache();
 
-        logger.log(`✅ Processed: ${filename}`);
-      } catch (error) {
-        logger.error(`❌ Failed to process ${videoPath}:`, error);
-      }
-    }
-
-    logger.log(`\n✨ Background scanning complete! Processed ${processed}/${videosToProcess.length} videos`);
-
-    // Clean up stale cache entries (files that no longer exist)
+    // Clean up stale cache entries (videos not found at their last path, even after relinking)
     const validPaths = new Set(allVideoPaths);
-    const cachedPaths = Object.keys(videoMetadataCache);
-    const stalePaths = cachedPaths.filter(path => !validPaths.has(path));
-
-    if (stalePaths.length > 0) {
-      logger.log(`🧹 Removing ${stalePaths.length} stale cache entries...`);
-      for (const stalePath of stalePaths) {
-        delete videoMetadataCache[stalePath];
-      }
-      await Bun.write('data/video-metadata-cache.json', JSON.stringify(videoMetadataCache, null, 2));
+    const staleFingerprints = Object.keys(videoMetadataCache.entries)
+      .filter(fingerprint => !validPaths.has(videoMetadataCache.entries[fingerprint].path));
+    const staleLegacyPaths = Object.keys(videoMetadataCache.legacy).filter(path => !validPaths.has(path));
+
+    if (staleFingerprints.length + staleLegacyPaths.length > 0) {
+      logger.log(`🧹 Removing ${staleFingerprints.length + staleLegacyPaths.length} stale cache entries...`);
+      staleFingerprints.forEach(fingerprint => delete videoMetadataCache.entries[fingerprint]);
+      Object.keys(videoMetadataCache.paths)
+        .filter(path => !videoMetadataCache.entries[videoMetadataCache.paths[path]])
+        .forEach(path => delete videoMetadataCache.paths[path]);
+      staleLegacyPaths.forEach(path => delete videoMetadataCache.legacy[path]);
+      saveVideoMetadataCache(videoMetadataCache);
       logger.log('✅ Cache cleanup complete');
     }
     logger.log(''); // Empty line for formatting
   } catch (error) {
-    logger.error('❌ Background video scanning error:', error);
+    logger.error('❌ Recording catalog error:', error);
   }
 })();
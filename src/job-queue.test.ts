@@ -0,0 +1,112 @@
+import { afterAll, afterEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JOB_PRIORITY, JobQueue, type AnalysisJob, type JobContext } from './job-queue';
+
+const dir = mkdtempSync(join(tmpdir(), 'job-queue-'));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const queues: JobQueue[] = [];
+afterEach(() => queues.splice(0).forEach(queue => queue.flush()));
+
+let created = 0;
+
+// A single-slot queue whose jobs run until released (or aborted), recording the order they started in
+function createQueue(jobsPath = join(dir, `jobs_${++created}.json`)) {
+  const started: string[] = [];
+  const releases = new Map<string, () => void>();
+  const queue = new JobQueue(
+    (job: AnalysisJob, context: JobContext) => new Promise<void>((resolve, reject) => {
+      started.push(job.videoPath);
+      context.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      releases.set(job.videoPath, () => (job.videoPath.includes('broken') ? reject(new Error('Unreadable video')) : resolve()));
+    }),
+    1,
+    () => {},
+    jobsPath
+  );
+  queues.push(queue);
+  queue.start();
+  return { queue, started, release: (videoPath: string) => releases.get(videoPath)!() };
+}
+
+describe('JobQueue', () => {
+  test('queuing the same video again returns the active job with the higher priority', () => {
+    const { queue } = createQueue();
+    queue.enqueue('metadata', '/v/a.mp4', JOB_PRIORITY.background);
+    const job = queue.enqueue('metadata', '/v/b.mp4', JOB_PRIORITY.background);
+    expect(queue.enqueue('metadata', '/v/b.mp4', JOB_PRIORITY.visible)).toBe(job);
+    expect(queue.enqueue('metadata', '/v/b.mp4', JOB_PRIORITY.user)).toBe(job);
+    expect(job.priority).toBe(JOB_PRIORITY.visible);
+    expect(queue.enqueue('wall-clock-index', '/v/b.mp4', JOB_PRIORITY.user)).not.toBe(job);
+    expect(queue.list()).toHaveLength(3);
+  });
+
+  test('runs the highest priority first, then in the order queued', async () => {
+    const { queue, started, release } = createQueue();
+    const first = queue.enqueue('metadata', '/v/a.mp4', JOB_PRIORITY.background);
+    queue.enqueue('metadata', '/v/b.mp4', JOB_PRIORITY.background);
+    queue.enqueue('metadata', '/v/c.mp4', JOB_PRIORITY.background);
+    queue.enqueue('metadata', '/v/c.mp4', JOB_PRIORITY.visible);
+    expect(first.status).toBe('running');
+
+    for (const videoPath of ['/v/a.mp4', '/v/c.mp4', '/v/b.mp4']) {
+      const job = queue.activeJob(videoPath, 'metadata')!;
+      release(videoPath);
+      await expect(queue.wait(job.id)).resolves.toMatchObject({ status: 'complete', progress: 1 });
+    }
+    expect(started).toEqual(['/v/a.mp4', '/v/c.mp4', '/v/b.mp4']);
+  });
+
+  test('cancelling a queued job drops it without running it', async () => {
+    const { queue, started, release } = createQueue();
+    queue.enqueue('metadata', '/v/a.mp4', JOB_PRIORITY.background);
+    const queued = queue.enqueue('metadata', '/v/b.mp4', JOB_PRIORITY.background);
+    const waiting = queue.wait(queued.id);
+
+    expect(queue.cancel(queued.id)?.status).toBe('cancelled');
+    await expect(waiting).rejects.toThrow('Job cancelled');
+    expect(queue.cancel(queued.id)).toBeNull();
+    expect(queue.activeJob('/v/b.mp4', 'metadata')).toBeNull();
+
+    release('/v/a.mp4');
+    await queue.wait(queue.list()[0].id);
+    expect(started).toEqual(['/v/a.mp4']);
+  });
+
+  test('cancelling a running job aborts its handler and starts the next one', async () => {
+    const { queue, started } = createQueue();
+    const running = queue.enqueue('metadata', '/v/a.mp4', JOB_PRIORITY.background);
+    queue.enqueue('metadata', '/v/b.mp4', JOB_PRIORITY.background);
+
+    queue.cancel(running.id);
+    await expect(queue.wait(running.id)).rejects.toThrow('Job cancelled');
+    expect(running).toMatchObject({ status: 'cancelled', step: 'Cancelled' });
+    expect(running.error).toBeUndefined();
+    expect(started).toEqual(['/v/a.mp4', '/v/b.mp4']);
+  });
+
+  test('a failing job rejects its waiters with the error', async () => {
+    const { queue, release } = createQueue();
+    const job = queue.enqueue('metadata', '/v/broken.mp4', JOB_PRIORITY.user);
+    const waiting = queue.wait(job.id);
+    release('/v/broken.mp4');
+    await expect(waiting).rejects.toThrow('Unreadable video');
+    expect(job).toMatchObject({ status: 'error', error: 'Unreadable video' });
+    await expect(queue.wait(job.id)).rejects.toThrow('Unreadable video');
+  });
+
+  test('jobs running at a restart run again from the start', () => {
+    const jobsPath = join(dir, 'restart.json');
+    const before = createQueue(jobsPath);
+    before.queue.enqueue('metadata', '/v/a.mp4', JOB_PRIORITY.user);
+    before.queue.flush();
+    expect(existsSync(jobsPath)).toBe(true);
+    expect(JSON.parse(readFileSync(jobsPath, 'utf-8'))).toMatchObject([{ videoPath: '/v/a.mp4', status: 'running' }]);
+
+    const after = createQueue(jobsPath);
+    expect(after.started).toEqual(['/v/a.mp4']);
+    expect(after.queue.list()).toMatchObject([{ videoPath: '/v/a.mp4', status: 'running', progress: 0 }]);
+  });
+});
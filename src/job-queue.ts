@@ -0,0 +1,244 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+const JOBS_PATH = 'data/analysis-jobs.json';
+const FINISHED_JOBS_KEPT = 50;  // Finished jobs listed in the jobs panel, newest first
+const SAVE_DELAY_MS = 500;      // Changes within this time are written to disk together
+
+export type AnalysisJobKind = 'metadata' | 'wall-clock-index';
+export type AnalysisJobStatus = 'queued' | 'running' | 'complete' | 'error' | 'cancelled';
+
+// Higher runs first; jobs of the same priority run in the order they were queued
+export const JOB_PRIORITY = {
+  background: 0,  // New videos found by the recording catalog, jobs restored after a restart
+  user: 5,        // Reprocessing and wall-clock indexes requested from the dashboard
+  visible: 10     // Metadata of the rows the dashboard is showing
+};
+
+/**
+ * One analysis task of one video, persisted in data/analysis-jobs.json
+ */
+export interface AnalysisJob {
+  id: string;
+  kind: AnalysisJobKind;
+  videoPath: string;
+  intervalSeconds?: number;   // Sampling interval of wall-clock-index jobs
+  ocrProfile?: string;        // OCR profile that read the video before it was reprocessed, tried first by metadata jobs
+  priority: number;
+  status: AnalysisJobStatus;
+  progress: number;           // 0-1
+  step: string;               // What the job is doing now
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+/**
+ * Handed to a running job: cancellation kills the processes started with `signal`
+ */
+export interface JobContext {
+  signal: AbortSignal;
+  progress(fraction: number, step: string): void;
+}
+
+export type JobHandler = (job: AnalysisJob, context: JobContext) => Promise<void>;
+
+const isActive = (job: AnalysisJob) => job.status === 'queued' || job.status === 'running';
+
+/**
+ * Priority queue of analysis jobs that survives restarts
+ * Queuing a job that is already queued or running for the same video returns that job (with the higher priority),
+ * so the dashboard, the catalog watcher and the reprocess buttons can all ask for the same work.
+ */
+export class JobQueue {
+  private jobs: AnalysisJob[] = [];
+  private controllers = new Map<string, AbortController>();  // Running jobs by id
+  private waiters = new Map<string, { resolve: (job: AnalysisJob) => void; reject: (error: Error) => void }[]>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private handler: JobHandler,
+    private concurrency: number,
+    private onUpdate: (job: AnalysisJob) => void = () => {},  // Called on every status or progress change
+    private jobsPath = JOBS_PATH
+  ) {}
+
+  /**
+   * Restore the jobs of the previous run and start working; jobs interrupted by the restart run again from the start
+   */
+  start() {
+    if (existsSync(this.jobsPath)) {
+      try {
+        this.jobs = JSON.parse(readFileSync(this.jobsPath, 'utf-8'));
+      } catch (error) {
+        this.jobs = [];
+      }
+    }
+    this.jobs.filter(job => job.status === 'running').forEach(job => {
+      Object.assign(job, { status: 'queued', progress: 0, step: 'Interrupted by a restart', startedAt: undefined });
+    });
+    this.scheduleSave();
+    this.pump();
+  }
+
+  list(): AnalysisJob[] {
+    return this.jobs;
+  }
+
+  // The queued or running job of a video, if any
+  activeJob(videoPath: string, kind: AnalysisJobKind): AnalysisJob | null {
+    return this.jobs.find(job => job.videoPath === videoPath && job.kind === kind && isActive(job)) || null;
+  }
+
+  enqueue(kind: AnalysisJobKind, videoPath: string, priority: number, options: { intervalSeconds?: number; ocrProfile?: string } = {}): AnalysisJob {
+    const existing = this.activeJob(videoPath, kind);
+    if (existing) {
+      if (priority > existing.priority) {
+        existing.priority = priority;
+        this.scheduleSave();
+        this.onUpdate(existing);
+      }
+      return existing;
+    }
+
+    const job: AnalysisJob = {
+      id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      kind,
+      videoPath,
+      ...options,
+      priority,
+      status: 'queued',
+      progress: 0,
+      step: 'Waiting',
+      createdAt: new Date().toISOString()
+    };
+    this.jobs.push(job);
+    this.scheduleSave();
+    this.onUpdate(job);
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Resolves when the job completes; rejects when it fails or is cancelled
+   */
+  wait(id: string): Promise<AnalysisJob> {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job) {
+      return Promise.reject(new Error('Job not found'));
+    }
+    if (!isActive(job)) {
+      return job.status === 'complete' ? Promise.resolve(job) : Promise.reject(new Error(job.error || `Job ${job.status}`));
+    }
+    return new Promise((resolve, reject) => {
+      const waiting = this.waiters.get(id) || [];
+      waiting.push({ resolve, reject });
+      this.waiters.set(id, waiting);
+    });
+  }
+
+  /**
+   * Cancel a job: a queued one is dropped, a running one has its processes killed
+   * Returns null when there is no such job or it already finished
+   */
+  cancel(id: string): AnalysisJob | null {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || !isActive(job)) {
+      return null;
+    }
+    if (job.status === 'running') {
+      // The handler fails with the abort, and the job is finished as cancelled
+      this.controllers.get(id)?.abort();
+    } else {
+      this.finish(job, 'cancelled');
+    }
+    return job;
+  }
+
+  // Start queued jobs while there are free slots, highest priority first
+  private pump() {
+    while (this.controllers.size < this.concurrency) {
+      const next = this.jobs
+        .filter(job => job.status === 'queued')
+        .sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt))[0];
+      if (!next) {
+        return;
+      }
+      this.run(next);
+    }
+  }
+
+  private async run(job: AnalysisJob) {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    Object.assign(job, { status: 'running', startedAt: new Date().toISOString(), step: 'Starting' });
+    this.scheduleSave();
+    this.onUpdate(job);
+
+    try {
+      await this.handler(job, {
+        signal: controller.signal,
+        progress: (fraction, step) => {
+          if (job.status !== 'running') {
+            return;
+          }
+          job.progress = Math.max(0, Math.min(1, fraction));
+          job.step = step;
+          this.onUpdate(job);
+        }
+      });
+      this.finish(job, 'complete');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.finish(job, controller.signal.aborted ? 'cancelled' : 'error', controller.signal.aborted ? undefined : message);
+    } finally {
+      this.controllers.delete(job.id);
+      this.pump();
+    }
+  }
+
+  private finish(job: AnalysisJob, status: 'complete' | 'error' | 'cancelled', error?: string) {
+    Object.assign(job, {
+      status,
+      finishedAt: new Date().toISOString(),
+      step: status === 'complete' ? 'Done' : status === 'cancelled' ? 'Cancelled' : 'Failed',
+      ...(status === 'complete' ? { progress: 1 } : {}),
+      ...(error ? { error } : {})
+    });
+    this.scheduleSave();
+    this.onUpdate(job);
+
+    (this.waiters.get(job.id) || []).forEach(waiter =>
+      status === 'complete' ? waiter.resolve(job) : waiter.reject(new Error(error || `Job ${status}`))
+    );
+    this.waiters.delete(job.id);
+  }
+
+  /**
+   * Write pending changes now (on shutdown); otherwise they are written SAVE_DELAY_MS after the first one,
+   * so queuing a whole folder of videos writes the file once
+   */
+  flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.save();
+    }
+  }
+
+  private scheduleSave() {
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    }
+  }
+
+  // Persist the active jobs and the latest finished ones
+  private save() {
+    const finished = this.jobs
+      .filter(job => !isActive(job))
+      .sort((a, b) => (b.finishedAt || '').localeCompare(a.finishedAt || ''))
+      .slice(0, FINISHED_JOBS_KEPT);
+    this.jobs = [...this.jobs.filter(isActive), ...finished];
+    writeFileSync(this.jobsPath, JSON.stringify(this.jobs, null, 2));
+  }
+}
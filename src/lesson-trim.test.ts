@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+import { clockToSeconds, findRecordedLesson, planLessonTrim, secondsToClock } from './lesson-trim';
+
+describe('clock conversions', () => {
+  test('HH:MM and HH:MM:SS to seconds and back', () => {
+    expect(clockToSeconds('08:15')).toBe(29700);
+    expect(clockToSeconds('08:15:30')).toBe(29730);
+    expect(secondsToClock(29730.4)).toBe('08:15:30');
+  });
+});
+
+describe('planLessonTrim', () => {
+  test('cuts the dead time around the lesson, keeping the margin', () => {
+    const plan = planLessonTrim({ startClock: '08:00:00', endClock: '10:00:00', durationSeconds: 7200 }, '08:15', '09:45');
+    expect(plan).toMatchObject({ inSeconds: 840, outSeconds: 6360, videoStart: '08:00:00', videoEnd: '10:00:00', warnings: [] });
+  });
+
+  test('a video shorter than the lesson is kept from its start to its end', () => {
+    const plan = planLessonTrim({ startClock: '08:30:00', durationSeconds: 3600 }, '08:15', '09:45');
+    expect(plan).toMatchObject({ inSeconds: 0, outSeconds: 3600, videoEnd: '09:30:00', warnings: [] });
+  });
+
+  test('warns about a minute-precision start', () => {
+    const plan = planLessonTrim({ startClock: '08:00', durationSeconds: 7200 }, '08:15', '09:45');
+    expect(plan.warnings).toEqual([expect.stringContaining('only known to the minute')]);
+  });
+
+  test('warns when the clock span and the duration disagree, beyond the tolerance', () => {
+    const clock = { startClock: '08:00:00', endClock: '10:00:00' };
+    expect(planLessonTrim({ ...clock, durationSeconds: 7195 }, '08:15', '09:45').warnings).toEqual([]);
+    expect(planLessonTrim({ ...clock, durationSeconds: 7194 }, '08:15', '09:45').warnings)
+      .toEqual([expect.stringContaining('paused or already cut')]);
+  });
+
+  test('a recording past midnight is not a mismatch', () => {
+    const plan = planLessonTrim({ startClock: '23:30:00', endClock: '00:30:00', durationSeconds: 3600 }, '23:45', '23:59');
+    expect(plan.warnings).toEqual([]);
+  });
+
+  test('warns when the video does not overlap the lesson', () => {
+    const plan = planLessonTrim({ startClock: '12:00:00', durationSeconds: 3600 }, '08:15', '09:45');
+    expect(plan.warnings).toEqual(['The video does not overlap the lesson']);
+    expect(plan.outSeconds).toBe(plan.inSeconds);
+  });
+});
+
+describe('findRecordedLesson', () => {
+  const blocks = [
+    { start: '08:15', end: '09:45' },
+    { start: '10:00', end: '11:30' },
+    { start: '12:00', end: '13:30' }
+  ];
+
+  test('spans the blocks the video overlaps', () => {
+    expect(findRecordedLesson({ startClock: '08:10:00', endClock: '11:35:00', durationSeconds: 12300 }, blocks))
+      .toEqual({ start: '08:15', end: '11:30' });
+  });
+
+  test('a block overlapped by less than 15 min is left out', () => {
+    expect(findRecordedLesson({ startClock: '09:31:00', durationSeconds: 7200 }, blocks))
+      .toEqual({ start: '10:00', end: '11:30' });
+    expect(findRecordedLesson({ startClock: '09:30:00', durationSeconds: 7200 }, blocks))
+      .toEqual({ start: '08:15', end: '11:30' });
+  });
+
+  test('half of a short block is enough', () => {
+    expect(findRecordedLesson({ startClock: '14:10:00', durationSeconds: 600 }, [{ start: '14:00', end: '14:20' }]))
+      .toEqual({ start: '14:00', end: '14:20' });
+  });
+
+  test('null when the video overlaps no block', () => {
+    expect(findRecordedLesson({ startClock: '14:00:00', durationSeconds: 3600 }, blocks)).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+// Kept before the lesson start and after its end, as the burned-in clock and the schedule are not exact
+const DEFAULT_MARGIN_SECONDS = 60;
+
+/**
+ * Wall-clock information about a video, from the OCR timestamp cache
+ */
+export interface VideoClock {
+  startClock: string;       // HH:MM:SS (or HH:MM for entries extracted before seconds were kept) of the first frame
+  endClock?: string;        // Same for the last frame
+  durationSeconds: number;
+}
+
+/**
+ * Where to cut a recording so only the lesson remains, in seconds from the start of the video
+ */
+export interface LessonTrimPlan {
+  inSeconds: number;
+  outSeconds: number;
+  durationSeconds: number;
+  lessonStart: string;      // HH:MM
+  lessonEnd: string;
+  videoStart: string;       // Wall-clock time of the first frame
+  videoEnd: string;         // Wall-clock time of the last frame (computed from the duration when not read)
+  warnings: string[];       // Reasons the plan may be off, shown before the user confirms
+}
+
+// Seconds since midnight for "HH:MM" or "HH:MM:SS"
+export function clockToSeconds(clock: string): number {
+  const [hours, minutes, seconds = 0] = clock.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// "HH:MM:SS" for seconds since midnight (or since the start of a video)
+export function secondsToClock(totalSeconds: number): string {
+  const rounded = Math.round(totalSeconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const seconds = rounded % 60;
+  return [hours, minutes, seconds].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+/**
+ * The part of a day's lessons a video recorded: from the start of the first block it overlaps to the end of the last
+ * A block counts when the video covers 15 min of it (or half of a shorter block), so a recording started a little
+ * early does not pull in the previous lesson. Returns null when the video overlaps no block.
+ */
+export function findRecordedLesson(clock: VideoClock, blocks: { start: string; end: string }[]): { start: string; end: string } | null {
+  const videoStart = clockToSeconds(clock.startClock);
+  let videoEnd = clock.endClock ? clockToSeconds(clock.endClock) : videoStart + clock.durationSeconds;
+  if (videoEnd < videoStart) {
+    videoEnd += 24 * 3600; // Recording ran past midnight
+  }
+
+  const recorded = blocks.filter(block => {
+    const blockStart = clockToSeconds(block.start);
+    const blockEnd = clockToSeconds(block.end);
+    const overlap = Math.min(videoEnd, blockEnd) - Math.max(videoStart, blockStart);
+    return overlap > 0 && overlap >= Math.min(15 * 60, (blockEnd - blockStart) / 2);
+  });
+  if (recorded.length === 0) {
+    return null;
+  }
+  return {
+    start: recorded.map(block => block.start).sort()[0],
+    end: recorded.map(block => block.end).sort().pop()!
+  };
+}
+
+/**
+ * Compute in/out points that cut the dead time before and after a lesson
+ * The video's wall-clock time is assumed to run in step with its playback time, which does not hold
+ * for timebolted or paused recordings; a mismatch with the last frame's clock is reported as a warning
+ */
+export function planLessonTrim(
+  clock: VideoClock,
+  lessonStart: string,
+  lessonEnd: string,
+  marginSeconds = DEFAULT_MARGIN_SECONDS
+): LessonTrimPlan {
+  const warnings: string[] = [];
+  const videoStartSeconds = clockToSeconds(clock.startClock);
+
+  if (clock.startClock.split(':').length < 3) {
+    warnings.push('The video start time is only known to the minute; re-extract its timestamps for exact cuts');
+  }
+  if (clock.endClock) {
+    let clockSpan = clockToSeconds(clock.endClock) - videoStartSeconds;
+    if (clockSpan < 0) {
+      clockSpan += 24 * 3600; // Recording ran past midnight
+    }
+    // Minute precision allows a minute of difference
+    const tolerance = clock.endClock.split(':').length < 3 || clock.startClock.split(':').length < 3 ? 60 : 5;
+    if (Math.abs(clockSpan - clock.durationSeconds) > tolerance) {
+      warnings.push(
+        `The clock in the video runs ${secondsToClock(clockSpan)} but the video is ${secondsToClock(clock.durationSeconds)} long ` +
+        `(paused or already cut?), so the cuts may be off`
+      );
+    }
+  }
+
+  const inSeconds = Math.max(0, clockToSeconds(lessonStart) - marginSeconds - videoStartSeconds);
+  const outSeconds = Math.min(clock.durationSeconds, clockToSeconds(lessonEnd) + marginSeconds - videoStartSeconds);
+  if (outSeconds <= inSeconds) {
+    warnings.push('The video does not overlap the lesson');
+  }
+
+  return {
+    inSeconds,
+    outSeconds: Math.max(inSeconds, outSeconds),
+    durationSeconds: clock.durationSeconds,
+    lessonStart,
+    lessonEnd,
+    videoStart: clock.startClock,
+    videoEnd: clock.endClock || secondsToClock(videoStartSeconds + clock.durationSeconds),
+    warnings
+  };
+}
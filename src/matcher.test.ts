@@ -0,0 +1,234 @@
+import { describe, expect, test } from 'bun:test';
+import { matchRecording, type MatchLesson } from './matcher';
+import type { RecordingFolder, VideoTimes } from './recording-scanner';
+
+const DATE = '2025-10-14';
+const OPTIONS = { startToleranceMinutes: 15 };
+
+// TAK24 and TAK25 share the morning block; each has a lesson of its own later that day
+const TAK24: MatchLesson = {
+  date: DATE,
+  start: '08:15',
+  end: '13:30',
+  studentGroup: 'TAK24',
+  sharedWith: ['TAK25'],
+  lessons: [
+    { start: '08:15', end: '09:45', sharedWith: ['TAK25'] },
+    { start: '12:00', end: '13:30' }
+  ]
+};
+const TAK25: MatchLesson = {
+  date: DATE,
+  start: '08:15',
+  end: '15:30',
+  studentGroup: 'TAK25',
+  sharedWith: ['TAK24'],
+  lessons: [
+    { start: '08:15', end: '09:45', sharedWith: ['TAK24'] },
+    { start: '14:00', end: '15:30' }
+  ]
+};
+
+// Two groups with one lesson each at different times
+const MORNING: MatchLesson = {
+  date: DATE, start: '08:15', end: '09:45', studentGroup: 'IT24', sharedWith: [], lessons: [{ start: '08:15', end: '09:45' }]
+};
+const NOON: MatchLesson = {
+  date: DATE, start: '12:00', end: '13:30', studentGroup: 'IT25', sharedWith: [], lessons: [{ start: '12:00', end: '13:30' }]
+};
+
+function recording(videos: { name: string; times?: Omit<VideoTimes, 'date'> }[], time?: string, date = DATE): RecordingFolder {
+  const paths = videos.map(video => `/recordings/folder/${video.name}`);
+  return {
+    folder: 'folder',
+    folderPath: '/recordings',
+    date,
+    ...(time ? { time } : {}),
+    videos: paths,
+    videoTimes: Object.fromEntries(videos
+      .map((video, i) => [paths[i], video.times ? { date, ...video.times } : undefined])
+      .filter(([, times]) => times))
+  };
+}
+
+interface MatcherCase {
+  name: string;
+  recording: RecordingFolder;
+  lesson: MatchLesson;
+  lessonsForDate: MatchLesson[];
+  matched: boolean;
+  confidence?: number;
+  reason?: string;     // Substring of the reason
+}
+
+const cases: MatcherCase[] = [
+  {
+    name: 'filename: own group',
+    recording: recording([{ name: 'TAK24 - Programming.mp4' }]),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: true,
+    confidence: 1,
+    reason: 'named after TAK24'
+  },
+  {
+    name: 'filename: other group during the shared block',
+    recording: recording([{ name: 'TAK25 - Programming.mp4', times: { start: '08:20', end: '09:40' } }]),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: true,
+    confidence: 1,
+    reason: 'named after TAK25'
+  },
+  {
+    name: 'filename: other group during its own lesson',
+    recording: recording([{ name: 'TAK25 - Databases.mp4', times: { start: '14:05', end: '15:25' } }]),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: false,
+    reason: 'do not overlap any TAK24 lesson'
+  },
+  {
+    name: 'filename: other group, folder time in the shared block',
+    recording: recording([{ name: 'TAK25 - Programming.mp4' }], '08:10'),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: true,
+    confidence: 1
+  },
+  {
+    name: 'filename: other group, no time and not every block shared',
+    recording: recording([{ name: 'TAK25 - Programming.mp4' }]),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: false
+  },
+  {
+    name: 'OCR: start and end overlap a block',
+    recording: recording([{ name: 'zoom_0.mp4', times: { start: '12:05', end: '13:25' } }]),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: true,
+    confidence: 0.95,
+    reason: 'overlaps lesson 12:00-13:30 by 80 min'
+  },
+  {
+    name: 'OCR: overlap of exactly 15 min',
+    recording: recording([{ name: 'zoom_0.mp4', times: { start: '11:00', end: '12:15' } }]),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: true,
+    reason: 'by 15 min'
+  },
+  {
+    name: 'OCR: overlap of 14 min is too little',
+    recording: recording([{ name: 'zoom_0.mp4', times: { start: '11:00', end: '12:14' } }]),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: false
+  },
+  {
+    name: 'OCR: start only, at the tolerance before the block',
+    recording: recording([{ name: 'zoom_0.mp4', times: { start: '11:45' } }]),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: true,
+    confidence: 0.85,
+    reason: 'starts in lesson 12:00-13:30'
+  },
+  {
+    name: 'OCR: start only, beyond the tolerance',
+    recording: recording([{ name: 'zoom_0.mp4', times: { start: '11:44' } }]),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: false
+  },
+  {
+    name: 'single slot: a joint lesson is one slot',
+    recording: recording([{ name: 'zoom_0.mp4' }]),
+    lesson: { ...TAK24, end: '09:45', lessons: [TAK24.lessons[0]] },
+    lessonsForDate: [
+      { ...TAK24, end: '09:45', lessons: [TAK24.lessons[0]] },
+      { ...TAK25, end: '09:45', lessons: [TAK25.lessons[0]] }
+    ],
+    matched: true,
+    confidence: 0.8,
+    reason: 'Only lesson on 2025-10-14'
+  },
+  {
+    name: 'folder time: closest lesson start',
+    recording: recording([{ name: 'zoom_0.mp4' }], '11:50'),
+    lesson: NOON,
+    lessonsForDate: [MORNING, NOON],
+    matched: true,
+    confidence: 0.63,
+    reason: '10 min before lesson start 12:00'
+  },
+  {
+    name: 'folder time: closer to another group',
+    recording: recording([{ name: 'zoom_0.mp4' }], '11:50'),
+    lesson: MORNING,
+    lessonsForDate: [MORNING, NOON],
+    matched: false,
+    reason: 'closer to the 12:00 lesson of IT25'
+  },
+  {
+    name: 'folder time: exactly the tolerance before the lesson',
+    recording: recording([{ name: 'zoom_0.mp4' }], '11:45'),
+    lesson: NOON,
+    lessonsForDate: [MORNING, NOON],
+    matched: true,
+    reason: '15 min before'
+  },
+  {
+    name: 'folder time: beyond the tolerance goes to the earlier lesson',
+    recording: recording([{ name: 'zoom_0.mp4' }], '11:44'),
+    lesson: NOON,
+    lessonsForDate: [MORNING, NOON],
+    matched: false,
+    reason: 'closer to the 08:15 lesson of IT24'
+  },
+  {
+    name: 'folder time: missing with several lessons',
+    recording: recording([{ name: 'zoom_0.mp4' }]),
+    lesson: NOON,
+    lessonsForDate: [MORNING, NOON],
+    matched: false,
+    reason: 'has no start time'
+  },
+  {
+    name: 'another date',
+    recording: recording([{ name: 'TAK24 - Programming.mp4' }], undefined, '2025-10-15'),
+    lesson: TAK24,
+    lessonsForDate: [TAK24, TAK25],
+    matched: false,
+    reason: 'Recording is from 2025-10-15'
+  }
+];
+
+describe('matchRecording', () => {
+  test.each(cases.map(c => [c.name, c] as const))('%s', (_, c) => {
+    const result = matchRecording(c.recording, c.lesson, c.lessonsForDate, OPTIONS);
+    expect(result.matched).toBe(c.matched);
+    if (c.confidence !== undefined) {
+      expect(result.confidence).toBe(c.confidence);
+    }
+    if (c.reason !== undefined) {
+      expect(result.reason).toContain(c.reason);
+    }
+    if (!c.matched) {
+      expect(result.videos).toEqual([]);
+    }
+  });
+
+  test('videos with and without OCR times are decided separately', () => {
+    const rec = recording([
+      { name: 'zoom_0.mp4', times: { start: '12:05', end: '13:25' } },
+      { name: 'zoom_1.mp4' }
+    ], '12:00');
+    const result = matchRecording(rec, NOON, [MORNING, NOON], OPTIONS);
+    expect(result.matched).toBe(true);
+    expect(result.videos).toEqual(rec.videos);
+    expect(result.confidence).toBe(0.7);
+  });
+});
@@ -0,0 +1,261 @@
+import type { RecordingFolder, VideoTimes } from './recording-scanner';
+
+/**
+ * The lesson side of a match: all lessons of one student group on one date
+ */
+export interface MatchLesson {
+  date: string;
+  start: string;          // HH:MM of the first lesson
+  end: string;
+  studentGroup: string;
+  sharedWith: string[];   // Groups attending a joint lesson with this group
+  lessons: MatchBlock[];  // Individual lesson blocks of the day
+}
+
+export interface MatchBlock {
+  start: string;
+  end: string;
+  sharedWith?: string[];  // Groups attending this block too
+}
+
+export interface MatchOptions {
+  startToleranceMinutes: number;  // A recording may start this long before its lesson
+}
+
+/**
+ * Outcome of matching one recording folder against one group's lessons
+ */
+export interface MatchResult {
+  matched: boolean;
+  confidence: number;   // 0-1, how certain the match is
+  reason: string;       // Human-readable explanation, shown in the dashboard
+  videos: string[];     // Videos of the folder that belong to the lesson
+}
+
+// Minutes since midnight for "HH:MM"
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function filenameOf(videoPath: string): string {
+  return videoPath.split('/').pop() || '';
+}
+
+/**
+ * Find the lesson blocks a video's OCR times fall into (a long video may span several)
+ * With an end time the video must overlap a block by 15 min (or half of a shorter block);
+ * with only a start time it must start inside the block or within the tolerance before it
+ */
+export function findOverlappingBlocks(
+  times: VideoTimes,
+  blocks: MatchBlock[],
+  options: MatchOptions
+): { block: MatchBlock; overlap?: number }[] {
+  const found: { block: MatchBlock; overlap?: number }[] = [];
+  const videoStart = toMinutes(times.start);
+  let videoEnd = times.end ? toMinutes(times.end) : undefined;
+  if (videoEnd !== undefined && videoEnd < videoStart) {
+    videoEnd += 24 * 60; // Recording ran past midnight
+  }
+
+  for (const block of blocks) {
+    const blockStart = toMinutes(block.start);
+    const blockEnd = toMinutes(block.end);
+
+    if (videoEnd === undefined) {
+      if (videoStart >= blockStart - options.startToleranceMinutes && videoStart < blockEnd) {
+        found.push({ block });
+      }
+      continue;
+    }
+
+    const overlap = Math.min(videoEnd, blockEnd) - Math.max(videoStart, blockStart);
+    if (overlap > 0 && overlap >= Math.min(15, (blockEnd - blockStart) / 2)) {
+      found.push({ block, overlap });
+    }
+  }
+
+  return found;
+}
+
+// The first lesson block a video's OCR times fall into
+function findOverlappingBlock(times: VideoTimes, blocks: MatchBlock[], options: MatchOptions): { block: MatchBlock; overlap?: number } | null {
+  return findOverlappingBlocks(times, blocks, options)[0] || null;
+}
+
+/**
+ * Match videos by the wall-clock times burned into them
+ * Videos spanning several lessons match every lesson they overlap, so each group gets them
+ */
+function matchByVideoTimes(recording: RecordingFolder, lesson: MatchLesson, options: MatchOptions): MatchResult {
+  const videos: string[] = [];
+  const reasons: string[] = [];
+  let confidence = 0;
+
+  for (const videoPath of recording.videos) {
+    const times = recording.videoTimes[videoPath];
+    if (!times || times.date !== lesson.date) {
+      continue;
+    }
+
+    const found = findOverlappingBlock(times, lesson.lessons, options);
+    if (!found) {
+      continue;
+    }
+
+    videos.push(videoPath);
+    const range = times.end ? `${times.start}-${times.end}` : `from ${times.start}`;
+    reasons.push(found.overlap !== undefined
+      ? `video time ${range} overlaps lesson ${found.block.start}-${found.block.end} by ${found.overlap} min`
+      : `video time ${range} starts in lesson ${found.block.start}-${found.block.end}`);
+    confidence = Math.max(confidence, found.overlap !== undefined ? 0.95 : 0.85);
+  }
+
+  if (videos.length === 0) {
+    return { matched: false, confidence: 0, reason: `Video times do not overlap any ${lesson.studentGroup} lesson`, videos };
+  }
+
+  const uniqueReasons = [...new Set(reasons)];
+  return {
+    matched: true,
+    confidence,
+    reason: uniqueReasons.length === 1
+      ? `${videos.length} video(s): ${uniqueReasons[0]}`
+      : uniqueReasons.map(r => r.charAt(0).toUpperCase() + r.slice(1)).join('; '),
+    videos
+  };
+}
+
+/**
+ * Whether a video named after another group belongs to this group's lessons
+ * Only when that group shares the block the video was recorded in (by its OCR times, else the folder's start time);
+ * a video with neither belongs here only when the group shares every block of the day
+ */
+function sharesVideoBlock(recording: RecordingFolder, videoPath: string, group: string, lesson: MatchLesson, options: MatchOptions): boolean {
+  const sharedBlocks = lesson.lessons.filter(block => (block.sharedWith || []).includes(group));
+  const times = recording.videoTimes[videoPath];
+  if (times && times.date === lesson.date) {
+    return findOverlappingBlock(times, sharedBlocks, options) !== null;
+  }
+  if (recording.time) {
+    return findOverlappingBlock({ date: lesson.date, start: recording.time }, sharedBlocks, options) !== null;
+  }
+  return sharedBlocks.length > 0 && sharedBlocks.length === lesson.lessons.length;
+}
+
+/**
+ * Decide whether a recording folder belongs to a group's lessons on the folder's date
+ *
+ * Rules, in order of confidence:
+ * 1. Videos whose filename starts with the group, e.g. "TAK24 - ...", or with a group sharing the block they were
+ *    recorded in
+ * 2. Videos whose OCR start/end times overlap one of the group's lessons
+ * 3. The date has a single lesson slot, so every recording of that day belongs to it
+ * 4. The folder's start time is closest to this group's lesson start, and no earlier than the tolerance allows
+ * Rules 3 and 4 only decide about videos without OCR times
+ */
+export function matchRecording(
+  recording: RecordingFolder,
+  lesson: MatchLesson,
+  lessonsForDate: MatchLesson[],
+  options: MatchOptions
+): MatchResult {
+  const noMatch = (reason: string): MatchResult => ({ matched: false, confidence: 0, reason, videos: [] });
+
+  if (recording.date !== lesson.date) {
+    return noMatch(`Recording is from ${recording.date}, lesson is on ${lesson.date}`);
+  }
+
+  const isNamedAfter = (videoPath: string, group: string) => filenameOf(videoPath).startsWith(`${group} -`);
+  const groupVideos = recording.videos.filter(videoPath =>
+    isNamedAfter(videoPath, lesson.studentGroup) ||
+    lesson.sharedWith.some(group => isNamedAfter(videoPath, group) && sharesVideoBlock(recording, videoPath, group, lesson, options))
+  );
+  if (groupVideos.length > 0) {
+    const namedGroups = [lesson.studentGroup, ...lesson.sharedWith].filter(group =>
+      groupVideos.some(videoPath => isNamedAfter(videoPath, group))
+    );
+    return {
+      matched: true,
+      confidence: 1,
+      reason: `${groupVideos.length} video(s) named after ${namedGroups.join(', ')}`,
+      videos: groupVideos
+    };
+  }
+
+  // Videos with OCR times are decided by their times; the rest fall back to the folder-based rules
+  const untimedVideos = recording.videos.filter(videoPath => !recording.videoTimes[videoPath]);
+  if (untimedVideos.length < recording.videos.length) {
+    const byTimes = matchByVideoTimes(recording, lesson, options);
+    if (untimedVideos.length === 0) {
+      return byTimes;
+    }
+
+    const byFolder = matchByFolder({ ...recording, videos: untimedVideos }, lesson, lessonsForDate, options);
+    if (!byTimes.matched || !byFolder.matched) {
+      return byTimes.matched ? byTimes : byFolder;
+    }
+    return {
+      matched: true,
+      confidence: Math.min(byTimes.confidence, byFolder.confidence),
+      reason: `${byTimes.reason}; ${byFolder.reason}`,
+      videos: [...byTimes.videos, ...byFolder.videos]
+    };
+  }
+
+  return matchByFolder(recording, lesson, lessonsForDate, options);
+}
+
+/**
+ * Match by the date's lesson count and the start time in the folder name
+ */
+function matchByFolder(
+  recording: RecordingFolder,
+  lesson: MatchLesson,
+  lessonsForDate: MatchLesson[],
+  options: MatchOptions
+): MatchResult {
+  const noMatch = (reason: string): MatchResult => ({ matched: false, confidence: 0, reason, videos: [] });
+
+  // A joint lesson appears once per group, so count distinct time slots instead of entries
+  const timeSlots = new Set(lessonsForDate.map(l => `${l.start}-${l.end}`));
+  if (timeSlots.size === 1) {
+    return {
+      matched: true,
+      confidence: 0.8,
+      reason: `Only lesson on ${lesson.date} (${lesson.start}-${lesson.end})`,
+      videos: recording.videos
+    };
+  }
+
+  if (!recording.time) {
+    return noMatch(`${timeSlots.size} lessons on ${lesson.date} and the folder name has no start time`);
+  }
+
+  const recordingTime = toMinutes(recording.time);
+  const candidates = lessonsForDate
+    .map(l => ({ lesson: l, startTime: toMinutes(l.start), timeDiff: Math.abs(toMinutes(l.start) - recordingTime) }))
+    .filter(c => recordingTime >= c.startTime - options.startToleranceMinutes)
+    .sort((a, b) => a.timeDiff - b.timeDiff);
+  const closest = candidates[0];
+
+  if (!closest) {
+    return noMatch(`Recording started at ${recording.time}, more than ${options.startToleranceMinutes} min before every lesson`);
+  }
+
+  // Groups sharing the closest lesson all start at the same time
+  if (closest.lesson.start !== lesson.start) {
+    return noMatch(`Recording started at ${recording.time}, closer to the ${closest.lesson.start} lesson of ${closest.lesson.studentGroup}`);
+  }
+
+  const offset = recordingTime - closest.startTime;
+  const offsetText = offset === 0 ? 'exactly at' : `${Math.abs(offset)} min ${offset < 0 ? 'before' : 'after'}`;
+  return {
+    matched: true,
+    // Closer start times are more convincing; an hour or more off is a weak guess
+    confidence: Math.round(Math.max(0.3, 0.7 - (closest.timeDiff / 60) * 0.4) * 100) / 100,
+    reason: `Recording started at ${recording.time}, ${offsetText} lesson start ${lesson.start} (closest of ${timeSlots.size} lessons)`,
+    videos: recording.videos
+  };
+}
@@ -0,0 +1,107 @@
+import { DEFAULT_OCR_PROFILE, type OcrCleanupRule, type OcrProfile, type RecordingsConfig } from './config';
+
+// Years a recording's clock may show, relative to the current year; anything else is a misread digit
+const MAX_RECORDING_AGE_YEARS = 10;
+const MAX_CLOCK_AHEAD_YEARS = 1;  // A recorder clock set a little ahead around New Year
+
+/**
+ * A date and time read from the timestamp burned into a video
+ */
+export interface OcrTimestamp {
+  date: string;   // YYYY-MM-DD
+  clock: string;  // HH:MM:SS
+}
+
+/**
+ * One image read during a failed extraction, kept in the timestamp cache for the diagnostics view
+ */
+export interface OcrAttempt {
+  frame: string;        // e.g. "start 7" or "end -3" (frames before the last)
+  profile: string;
+  engine: 'glyphs' | 'tesseract' | 'none';
+  rawText: string;
+  cleanedText: string;
+}
+
+/**
+ * Apply a profile's cleanup rules (by default tesseract's usual misreads of the Zoom font) to OCR text
+ */
+export function cleanOcrText(rawText: string, rules: OcrCleanupRule[] = DEFAULT_OCR_PROFILE.cleanup): string {
+  return rules.reduce((text, rule) => text.replace(new RegExp(rule.pattern, 'g'), rule.replacement), rawText.trim());
+}
+
+/**
+ * Find a "YYYY-MM-DD HH:MM:SS" timestamp in cleaned OCR text
+ * The space may be missing, as a narrow gap between date and time is not always recognized as one
+ * Returns null when there is none or its values are out of range (a misread digit), with the year checked against `now`
+ */
+export function parseOcrTimestamp(cleanedText: string, now: Date = new Date()): OcrTimestamp | null {
+  const match = cleanedText.match(/(\d{4})-(\d{1,2})-(\d{1,2})\s*(\d{1,2}):(\d{1,2}):(\d{1,2})/);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  if (year < now.getFullYear() - MAX_RECORDING_AGE_YEARS || year > now.getFullYear() + MAX_CLOCK_AHEAD_YEARS ||
+      month < 1 || month > 12 ||
+      day < 1 || day > 31 ||
+      hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    clock: `${pad(hour)}:${pad(minute)}:${pad(second)}`
+  };
+}
+
+/**
+ * Parse a time of day typed by the user, "HH:MM" or "HH:MM:SS"
+ * Returns "HH:MM:SS" (seconds default to 0), or null when it is not a valid time
+ */
+export function parseClockInput(input: string): string | null {
+  const match = input.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+  const [hour, minute, second] = match.slice(1).map(value => Number(value || 0));
+  if (hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+  return [hour, minute, second].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+/**
+ * ffmpeg filter that crops a profile's timestamp region out of a width x height frame and upscales it for OCR
+ * The region is clamped to the frame, so a profile made for a larger resolution still yields a valid crop
+ */
+export function buildOcrFilter(profile: OcrProfile, width: number, height: number): string {
+  const { region } = profile;
+  const toPixels = (value: number, size: number) => Math.round(region.unit === 'fraction' ? value * size : value);
+
+  const marginX = Math.min(toPixels(region.marginX, width), width - 1);
+  const marginY = Math.min(toPixels(region.marginY, height), height - 1);
+  const cropWidth = Math.max(1, Math.min(toPixels(region.width, width), width - marginX));
+  const cropHeight = Math.max(1, Math.min(toPixels(region.height, height), height - marginY));
+  const cropX = region.anchor.endsWith('right') ? width - cropWidth - marginX : marginX;
+  const cropY = region.anchor.startsWith('bottom') ? height - cropHeight - marginY : marginY;
+
+  return `crop=${cropWidth}:${cropHeight}:${cropX}:${cropY},scale=iw*${profile.scale}:ih*${profile.scale}`;
+}
+
+/**
+ * Profiles to try for a video, in order
+ * A root mapped to a profile in `rootOcrProfiles` uses only that one; otherwise all profiles are tried,
+ * starting with `preferred` (the one that read the video before)
+ */
+export function selectOcrProfiles(config: RecordingsConfig, videoPath: string, preferred?: string): OcrProfile[] {
+  const root = Object.keys(config.rootOcrProfiles).find(r => videoPath.startsWith(`${r}/`));
+  if (root) {
+    return config.ocrProfiles.filter(profile => profile.name === config.rootOcrProfiles[root]);
+  }
+  const preferredProfile = config.ocrProfiles.find(profile => profile.name === preferred);
+  return preferredProfile
+    ? [preferredProfile, ...config.ocrProfiles.filter(profile => profile !== preferredProfile)]
+    : config.ocrProfiles;
+}
@@ -0,0 +1,412 @@
+import { existsSync, readFileSync, watch, writeFileSync, type FSWatcher } from 'fs';
+import { readdir } from 'fs/promises';
+import { basename, dirname, join, relative, sep } from 'path';
+import { loadScheduleConfig, resolveDateWindow } from './config';
+import type { DateWindow, RecordingsConfig } from './config';
+import { readTimestampCache, scanEntry, type RecordingFolder } from './recording-scanner';
+import { matchRecording } from './matcher';
+import { findSplitRecordings, type SplitRecording } from './recording-parts';
+import { getOverrideForVideo, loadAssignmentOverrides } from './assignment-overrides';
+import { findExemption, loadExemptions } from './exemptions';
+import { loadScheduleChangeLog } from './schedule-diff';
+
+const LECTURE_RECORDINGS_PATH = 'data/lecture_recordings.json';
+const TIMES_SIMPLIFIED_PATH = 'data/times_simplified.json';
+const WATCH_DELAY_MS = 2000;  // Batch filesystem events; recorders write many events per second
+
+// One lesson block within a day (e.g. 10:00-11:30 Programming in A-201)
+export interface LessonBlock {
+  start: string;
+  end: string;
+  subject?: string;
+  room?: string;
+  sharedWith?: string[];  // Other groups attending the same (joint) lesson
+}
+
+// All lessons of one student group on one date (data/times_simplified.json)
+export interface SimplifiedLesson {
+  date: string;
+  start: string;
+  end: string;
+  studentGroup: string;
+  sharedWith: string[];   // Groups sharing at least one of this day's lessons
+  lessons: LessonBlock[];
+}
+
+// One row of data/lecture_recordings.json: a recording matched to a lesson, or a MISSING! placeholder
+export interface LectureRecording {
+  folder: string;
+  folderPath?: string;
+  date: string;
+  studentGroup: string;
+  sharedWith: string[];
+  subjects: string[];
+  lessons: LessonBlock[];
+  videos?: string[];
+  match?: { confidence: number; reason: string };
+  manual?: boolean;
+  exempt?: { id: string; reason: string };
+  uploaded?: boolean;
+  splitRecordings?: SplitRecording[];  // Same for every row of the lesson, as parts may be in several folders
+}
+
+// What a rescan changed, by recording entry path (folder path, or file path for loose files)
+export interface CatalogChange {
+  added: RecordingFolder[];
+  removed: string[];
+  updated: RecordingFolder[];
+  newVideos: string[];    // Videos not seen before, in added or updated recordings
+}
+
+function hasChanges(change: CatalogChange): boolean {
+  return change.added.length > 0 || change.removed.length > 0 || change.updated.length > 0;
+}
+
+// Distinct subject names of a day's lessons, in lesson order
+export function getSubjects(lessons: LessonBlock[]): string[] {
+  return [...new Set(lessons.map(l => l.subject).filter((s): s is string => !!s))];
+}
+
+function readJSON(path: string): any {
+  try {
+    return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Match scanned recordings to lessons, apply manual overrides and exemptions,
+ * and add MISSING! placeholders for lessons without videos
+ * Manual assignments are only kept when their date is inside `dateWindow` (all of them when it is null)
+ */
+export function buildLectureRecordings(
+  simplified: SimplifiedLesson[],
+  found: RecordingFolder[],
+  config: RecordingsConfig,
+  dateWindow: DateWindow | null
+): LectureRecording[] {
+  const lessonDates = new Set(simplified.map(s => s.date));
+  const lessonsByDateAndGroup = new Map(simplified.map(l => [`${l.date}:${l.studentGroup}`, l]));
+  const recordingsByDate = new Map<string, RecordingFolder[]>();
+  const overrides = loadAssignmentOverrides();
+  const exemptions = loadExemptions();
+  const manualAssignments = new Map<string, { rec: RecordingFolder; date: string; studentGroup: string; videos: string[] }>();
+
+  found.forEach(rec => {
+    // Videos (or whole folders) assigned in the dashboard bypass the matcher
+    const autoVideos: string[] = [];
+    rec.videos.forEach(videoPath => {
+      const override = getOverrideForVideo(overrides, videoPath, rec.folderPath);
+      if (!override) {
+        autoVideos.push(videoPath);
+      } else if (!override.notLesson && override.date && override.studentGroup) {
+        const key = `${rec.folderPath}/${rec.folder}:${override.date}:${override.studentGroup}`;
+        if (!manualAssignments.has(key)) {
+          manualAssignments.set(key, { rec, date: override.date, studentGroup: override.studentGroup, videos: [] });
+        }
+        manualAssignments.get(key)!.videos.push(videoPath);
+      }
+    });
+
+    const hasFolderOverride = overrides[rec.folderPath]?.kind === 'folder';
+    if (!lessonDates.has(rec.date) || (autoVideos.length === 0 && (rec.videos.length > 0 || hasFolderOverride))) {
+      return;
+    }
+    if (!recordingsByDate.has(rec.date)) {
+      recordingsByDate.set(rec.date, []);
+    }
+    recordingsByDate.get(rec.date)!.push(autoVideos.length === rec.videos.length ? rec : { ...rec, videos: autoVideos });
+  });
+
+  const matchingRecordings: LectureRecording[] = [];
+  const processedFolders = new Set<string>();  // Track which folders we've already added
+
+  for (const lesson of simplified) {
+    const recordings = recordingsByDate.get(lesson.date);
+    if (!recordings || recordings.length === 0) {
+      continue;
+    }
+
+    // For each recording folder, decide whether (and which of) its videos belong to this group's lessons
+    const lessonsForThisDate = simplified.filter(l => l.date === lesson.date);
+    recordings.forEach(rec => {
+      const match = matchRecording(rec, lesson, lessonsForThisDate, {
+        startToleranceMinutes: config.startToleranceMinutes
+      });
+
+      const folderKey = `${rec.folderPath}/${rec.folder}:${lesson.studentGroup}`;
+      if (match.matched && !processedFolders.has(folderKey)) {
+        processedFolders.add(folderKey);
+        matchingRecordings.push({
+          folder: rec.folder,
+          folderPath: rec.folderPath,
+          date: lesson.date,
+          studentGroup: lesson.studentGroup,
+          sharedWith: lesson.sharedWith,
+          subjects: getSubjects(lesson.lessons),
+          lessons: lesson.lessons,
+          videos: match.videos,
+          match: { confidence: match.confidence, reason: match.reason }
+        });
+      }
+    });
+  }
+
+  // Manual assignments within the schedule window, with the lesson details when the group has a lesson that day
+  manualAssignments.forEach(({ rec, date, studentGroup, videos }) => {
+    if (dateWindow && (date < dateWindow.from || date > dateWindow.to)) {
+      return;
+    }
+    const lesson = lessonsByDateAndGroup.get(`${date}:${studentGroup}`);
+    matchingRecordings.push({
+      folder: rec.folder,
+      folderPath: rec.folderPath,
+      date,
+      studentGroup,
+      sharedWith: lesson?.sharedWith || [],
+      subjects: lesson ? getSubjects(lesson.lessons) : [],
+      lessons: lesson?.lessons || [],
+      videos,
+      match: { confidence: 1, reason: 'Manually assigned in the dashboard' },
+      manual: true
+    });
+  });
+
+  // Videos that are parts of one recording, across all folders matched to the same lesson
+  const videoTimes = Object.assign({}, ...found.map(rec => rec.videoTimes));
+  const rowsByLesson = new Map<string, LectureRecording[]>();
+  matchingRecordings.forEach(row => {
+    const key = `${row.date}:${row.studentGroup}`;
+    if (!rowsByLesson.has(key)) {
+      rowsByLesson.set(key, []);
+    }
+    rowsByLesson.get(key)!.push(row);
+  });
+  rowsByLesson.forEach(rows => {
+    const splitRecordings = findSplitRecordings([...new Set(rows.flatMap(row => row.videos || []))], videoTimes);
+    if (splitRecordings.length > 0) {
+      rows.forEach(row => row.splitRecordings = splitRecordings);
+    }
+  });
+
+  for (const lesson of simplified) {
+    // Add placeholder for missing recording only if we didn't find any videos for this group/date
+    const hasRecordingForThisLesson = matchingRecordings.some(
+      r => r.date === lesson.date && r.studentGroup === lesson.studentGroup && r.videos && r.videos.length > 0
+    );
+    if (!hasRecordingForThisLesson) {
+      // Cancelled lessons, holidays, exams etc. are not expected to have a recording
+      const exemption = findExemption(exemptions, lesson.date, lesson.studentGroup);
+      matchingRecordings.push({
+        folder: 'MISSING!',
+        date: lesson.date,
+        studentGroup: lesson.studentGroup,
+        sharedWith: lesson.sharedWith,
+        subjects: getSubjects(lesson.lessons),
+        lessons: lesson.lessons,
+        ...(exemption ? { exempt: { id: exemption.id, reason: exemption.reason } } : {})
+      });
+    }
+  }
+
+  // Add upload status to recordings
+  const uploadedDates: { [group: string]: string[] } = readJSON('data/uploaded-dates.json') || {};
+  matchingRecordings.forEach(recording => {
+    const groupUploads = uploadedDates[recording.studentGroup] || [];
+    recording.uploaded = groupUploads.includes(recording.date);
+  });
+
+  // Sort recordings by date chronologically
+  return matchingRecordings.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * In-memory catalog of the recordings in the configured roots, kept current by watching the roots
+ * Changes rescan only the affected entries and rewrite data/lecture_recordings.json from the
+ * last fetched schedule, so the schedule is not downloaded again
+ */
+export class RecordingCatalog {
+  private entries = new Map<string, RecordingFolder>();  // Keyed by entry path
+  private watchers: FSWatcher[] = [];
+  private pendingPaths = new Set<string>();
+  private pendingTimer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private config: RecordingsConfig,
+    private onChange: (change: CatalogChange) => void = () => {}  // Called after every update that changed something
+  ) {}
+
+  // Run catalog updates one at a time, so overlapping events cannot interleave rescans and writes
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.running.then(fn, fn);
+    this.running = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * The root entry (recording folder or loose file) a path belongs to, or null outside the roots
+   */
+  entryPathFor(filePath: string): string | null {
+    for (const root of this.config.roots) {
+      const rel = relative(root, filePath);
+      if (rel && !rel.startsWith('..') && !rel.startsWith(sep)) {
+        return join(root, rel.split(sep)[0]);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Rescan every root from scratch and rewrite data/lecture_recordings.json
+   */
+  scanAll(): Promise<CatalogChange> {
+    return this.serialize(async () => {
+      const entryPaths = new Set(this.entries.keys());
+      for (const root of this.config.roots) {
+        try {
+          (await readdir(root)).forEach(entry => entryPaths.add(join(root, entry)));
+        } catch (error: any) {
+          console.warn(`⚠️  Skipping recording root ${root}: ${error.code || error.message}`);
+        }
+      }
+      const change = await this.rescanEntries([...entryPaths]);
+      await this.writeLectureRecordings();
+      this.notify(change);
+      return change;
+    });
+  }
+
+  /**
+   * Rescan the entries containing the given paths and rewrite data/lecture_recordings.json when they changed
+   */
+  refresh(paths: string[]): Promise<CatalogChange> {
+    return this.serialize(async () => {
+      const entryPaths = [...new Set(paths.map(p => this.entryPathFor(p)).filter((p): p is string => !!p))];
+      const change = await this.rescanEntries(entryPaths);
+      if (hasChanges(change)) {
+        await this.writeLectureRecordings();
+        this.notify(change);
+      }
+      return change;
+    });
+  }
+
+  /**
+   * Re-match the known recordings without touching the disk (after overrides or exemptions change)
+   */
+  rematch(): Promise<number> {
+    return this.serialize(() => this.writeLectureRecordings());
+  }
+
+  private notify(change: CatalogChange) {
+    if (hasChanges(change)) {
+      try {
+        this.onChange(change);
+      } catch (error) {
+        console.error('Error handling recording catalog change:', error);
+      }
+    }
+  }
+
+  private async rescanEntries(entryPaths: string[]): Promise<CatalogChange> {
+    const change: CatalogChange = { added: [], removed: [], updated: [], newVideos: [] };
+    const timestampCache = readTimestampCache();
+
+    for (const entryPath of entryPaths) {
+      const previous = this.entries.get(entryPath);
+      const recording = await scanEntry(dirname(entryPath), basename(entryPath), this.config, timestampCache);
+
+      if (!recording) {
+        if (previous) {
+          this.entries.delete(entryPath);
+          change.removed.push(entryPath);
+        }
+        continue;
+      }
+
+      this.entries.set(entryPath, recording);
+      const knownVideos = new Set(previous?.videos || []);
+      change.newVideos.push(...recording.videos.filter(v => !knownVideos.has(v)));
+      if (!previous) {
+        change.added.push(recording);
+      } else if (JSON.stringify(previous) !== JSON.stringify(recording)) {
+        change.updated.push(recording);
+      }
+    }
+
+    return change;
+  }
+
+  // Manual assignments are limited to the window of the last fetch, like in `bun run fetch`
+  // Without a fetch or a valid schedule config, no window is known and they are all kept
+  private currentDateWindow(): DateWindow | null {
+    const lastWindow = loadScheduleChangeLog().lastWindow;
+    if (lastWindow) {
+      return lastWindow;
+    }
+    try {
+      return resolveDateWindow(loadScheduleConfig());
+    } catch (error) {
+      console.warn(`⚠️  No schedule window for manual assignments: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+      return null;
+    }
+  }
+
+  private async writeLectureRecordings(): Promise<number> {
+    const simplified: SimplifiedLesson[] | null = readJSON(TIMES_SIMPLIFIED_PATH);
+    if (!simplified) {
+      console.warn(`⚠️  ${TIMES_SIMPLIFIED_PATH} not found, run "bun run fetch" first`);
+      return 0;
+    }
+    const recordings = buildLectureRecordings(simplified, [...this.entries.values()], this.config, this.currentDateWindow());
+    writeFileSync(LECTURE_RECORDINGS_PATH, JSON.stringify(recordings, null, 2));
+    return recordings.length;
+  }
+
+  /**
+   * Watch the recording roots and apply changes as they happen
+   * Events are batched for a short while before the affected entries are rescanned
+   */
+  watch() {
+    for (const root of this.config.roots) {
+      try {
+        this.watchers.push(watch(root, { recursive: true }, (_event, filename) => {
+          // Without a filename the whole root has to be rescanned
+          this.pendingPaths.add(filename ? join(root, filename.toString()) : root);
+          if (!this.pendingTimer) {
+            this.pendingTimer = setTimeout(() => this.flushPending(), WATCH_DELAY_MS);
+          }
+        }));
+      } catch (error: any) {
+        console.warn(`⚠️  Not watching recording root ${root}: ${error.code || error.message}`);
+      }
+    }
+  }
+
+  private async flushPending() {
+    const paths = [...this.pendingPaths];
+    this.pendingPaths.clear();
+    this.pendingTimer = null;
+
+    try {
+      if (paths.some(p => this.config.roots.includes(p))) {
+        await this.scanAll();
+      } else {
+        await this.refresh(paths);
+      }
+    } catch (error) {
+      console.error('Error updating recording catalog:', error);
+    }
+  }
+
+  close() {
+    this.watchers.forEach(w => w.close());
+    this.watchers = [];
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { findSplitRecordings } from './recording-parts';
+import type { VideoTimes } from './recording-scanner';
+
+const DATE = '2025-10-14';
+
+function times(start: string, end?: string): VideoTimes {
+  return { date: DATE, start, ...(end ? { end } : {}) };
+}
+
+describe('findSplitRecordings', () => {
+  test('parts following each other by OCR time form one recording, in playback order', () => {
+    const videoTimes = {
+      '/r/b.mp4': times('09:02', '09:45'),
+      '/r/a.mp4': times('08:15', '09:00'),
+      '/r/c.mp4': times('12:00', '13:30')
+    };
+    expect(findSplitRecordings(Object.keys(videoTimes), videoTimes)).toEqual([
+      { videos: ['/r/a.mp4', '/r/b.mp4'], start: '08:15', end: '09:45', basis: 'time' }
+    ]);
+  });
+
+  test('a slight overlap and a gap of up to 20 min still chain', () => {
+    const videoTimes = {
+      '/r/a.mp4': times('08:15', '09:00'),
+      '/r/b.mp4': times('08:58', '09:20'),
+      '/r/c.mp4': times('09:40', '10:00'),
+      '/r/d.mp4': times('10:21', '11:00')
+    };
+    expect(findSplitRecordings(Object.keys(videoTimes), videoTimes)).toEqual([
+      { videos: ['/r/a.mp4', '/r/b.mp4', '/r/c.mp4'], start: '08:15', end: '10:00', basis: 'time' }
+    ]);
+  });
+
+  test('a part without an end time ends its chain', () => {
+    const videoTimes = {
+      '/r/a.mp4': times('08:15'),
+      '/r/b.mp4': times('09:02', '09:45')
+    };
+    expect(findSplitRecordings(Object.keys(videoTimes), videoTimes)).toEqual([]);
+  });
+
+  test('videos without OCR times are grouped by numbered names per folder', () => {
+    const videos = ['/r/x/zoom_02.mp4', '/r/x/zoom_0.mp4', '/r/x/zoom_01.mp4', '/r/y/zoom_0.mp4', '/r/x/other.mp4'];
+    expect(findSplitRecordings(videos, {})).toEqual([
+      { videos: ['/r/x/zoom_0.mp4', '/r/x/zoom_01.mp4', '/r/x/zoom_02.mp4'], basis: 'name' }
+    ]);
+  });
+
+  test('videos with OCR times are not grouped by name', () => {
+    const videoTimes = { '/r/x/zoom_0.mp4': times('08:15', '09:00'), '/r/x/zoom_01.mp4': times('12:00', '13:00') };
+    expect(findSplitRecordings(Object.keys(videoTimes), videoTimes)).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { basename, dirname, extname } from 'path';
+import type { VideoTimes } from './recording-scanner';
+
+const MAX_PART_GAP_MINUTES = 20;      // A restarted meeting resumes within this time
+const PART_OVERLAP_MINUTES = 2;       // OCR times are per minute, so consecutive parts may seem to overlap slightly
+
+/**
+ * Several video files that together make up one lesson recording
+ * (Zoom splits a recording into "_01", "_02", ... files, or a restarted meeting creates a new folder)
+ */
+export interface SplitRecording {
+  videos: string[];       // Parts in playback order
+  start?: string;         // HH:MM start of the first part, when known from OCR
+  end?: string;           // HH:MM end of the last part, when known from OCR
+  basis: 'time' | 'name'; // Grouped by OCR times, or by numbered file names
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Chain videos whose OCR times follow each other: each part starts shortly after the previous one ended
+ * A video without an end time ends its chain, since what follows it cannot be told
+ */
+function groupByTimes(videos: string[], videoTimes: { [videoPath: string]: VideoTimes }): SplitRecording[] {
+  const remaining = videos
+    .filter(video => videoTimes[video])
+    .sort((a, b) => {
+      const ta = videoTimes[a];
+      const tb = videoTimes[b];
+      return ta.date.localeCompare(tb.date) || ta.start.localeCompare(tb.start) || (ta.end || '').localeCompare(tb.end || '');
+    });
+
+  const splits: SplitRecording[] = [];
+  while (remaining.length > 0) {
+    const chain = [remaining.shift()!];
+
+    while (true) {
+      const last = videoTimes[chain[chain.length - 1]];
+      if (!last.end) {
+        break;
+      }
+      const lastEnd = toMinutes(last.end);
+      const next = remaining.findIndex(video => {
+        const times = videoTimes[video];
+        const gap = toMinutes(times.start) - lastEnd;
+        return times.date === last.date && gap >= -PART_OVERLAP_MINUTES && gap <= MAX_PART_GAP_MINUTES;
+      });
+      if (next === -1) {
+        break;
+      }
+      chain.push(remaining.splice(next, 1)[0]);
+    }
+
+    if (chain.length > 1) {
+      splits.push({
+        videos: chain,
+        start: videoTimes[chain[0]].start,
+        end: videoTimes[chain[chain.length - 1]].end,
+        basis: 'time'
+      });
+    }
+  }
+
+  return splits;
+}
+
+/**
+ * Group numbered files in the same folder, e.g. "zoom_0.mp4", "zoom_01.mp4", "zoom_02.mp4"
+ */
+function groupByNames(videos: string[]): SplitRecording[] {
+  const groups = new Map<string, { part: number; video: string }[]>();
+
+  for (const video of videos) {
+    const match = basename(video, extname(video)).match(/^(.+)_(\d{1,2})$/);
+    if (!match) {
+      continue;
+    }
+    const key = `${dirname(video)}/${match[1]}`;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push({ part: parseInt(match[2]), video });
+  }
+
+  return [...groups.values()]
+    .filter(parts => parts.length > 1)
+    .map(parts => ({
+      videos: parts.sort((a, b) => a.part - b.part).map(p => p.video),
+      basis: 'name' as const
+    }));
+}
+
+/**
+ * Find the split recordings among one lesson's videos
+ * Videos with OCR times are grouped by time; the others by numbered file names
+ */
+export function findSplitRecordings(videos: string[], videoTimes: { [videoPath: string]: VideoTimes }): SplitRecording[] {
+  return [
+    ...groupByTimes(videos, videoTimes),
+    ...groupByNames(videos.filter(video => !videoTimes[video]))
+  ];
+}
@@ -0,0 +1,189 @@
+import { readdir, stat } from 'fs/promises';
+import { basename, extname, join } from 'path';
+import { isValidDate } from './config';
+import type { RecordingsConfig } from './config';
+import { loadFingerprintCache, lookupEntry, type FingerprintCache } from './fingerprint-cache';
+
+const TIMESTAMP_CACHE_PATH = 'data/timestamp-cache.json';
+
+/**
+ * Wall-clock times burned into a video, read by OCR on the server (see extractTimestampFromVideo)
+ */
+export interface VideoTimes {
+  date: string;   // YYYY-MM-DD
+  start: string;  // HH:MM
+  end?: string;   // HH:MM, when the last frames could be read
+}
+
+/**
+ * One recording found on disk: a recorder output folder, or a single loose video file
+ */
+export interface RecordingFolder {
+  folder: string;      // Display name (folder name, or file name for loose files)
+  folderPath: string;  // Absolute path of the directory holding the videos
+  date: string;        // YYYY-MM-DD, from the videos' OCR timestamps or else the name
+  time?: string;       // HH:MM recording start, when the name contains it
+  videos: string[];    // Absolute video file paths
+  videoTimes: { [videoPath: string]: VideoTimes };  // Cached OCR times of the videos that have them
+}
+
+/**
+ * Read the recording date (and start time when present) from a folder or file name
+ * Returns null when no configured pattern matches or the date is not a real date
+ */
+export function parseRecordingName(name: string, patterns: RegExp[]): { date: string; time?: string } | null {
+  for (const pattern of patterns) {
+    const groups = name.match(pattern)?.groups;
+    if (!groups) {
+      continue;
+    }
+
+    const date = groups.date ?? `${groups.year}-${groups.month?.padStart(2, '0')}-${groups.day?.padStart(2, '0')}`;
+    if (!isValidDate(date)) {
+      continue;
+    }
+
+    const time = groups.hour !== undefined && groups.minute !== undefined
+      ? `${groups.hour.padStart(2, '0')}:${groups.minute.padStart(2, '0')}`
+      : undefined;
+    return { date, time };
+  }
+  return null;
+}
+
+// OCR results from the server's timestamp cache, keyed by content fingerprint
+export function readTimestampCache(): FingerprintCache<any> {
+  return loadFingerprintCache(TIMESTAMP_CACHE_PATH, json => json?.results);
+}
+
+/**
+ * Look up cached OCR times for videos by their content, so renamed and moved videos keep them
+ * Entries of content that changed since extraction are ignored, including times set by hand
+ */
+export async function loadVideoTimes(
+  videoPaths: string[],
+  timestampCache: FingerprintCache<any> = readTimestampCache()
+): Promise<Map<string, VideoTimes>> {
+  const times = new Map<string, VideoTimes>();
+
+  for (const videoPath of videoPaths) {
+    const cached = await lookupEntry(timestampCache, videoPath);
+    // Cached timestamps look like "2025-10-14 10:02", end timestamps like "11:28"
+    const match = cached?.timestamp?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2})/);
+    if (!match || !isValidDate(match[1])) {
+      continue;
+    }
+    times.set(videoPath, {
+      date: match[1],
+      start: match[2],
+      ...(/^\d{2}:\d{2}$/.test(cached.endTimestamp || '') ? { end: cached.endTimestamp } : {})
+    });
+  }
+
+  return times;
+}
+
+/**
+ * Check whether a file name has one of the configured video extensions
+ */
+export function isVideoFile(filename: string, extensions: string[]): boolean {
+  return extensions.includes(extname(filename).toLowerCase());
+}
+
+/**
+ * Build a recording, preferring the OCR date of its videos over the date in its name
+ * Folders that were renamed or copied keep their true date this way
+ */
+async function createRecording(
+  folder: string,
+  folderPath: string,
+  parsed: { date: string; time?: string } | null,
+  videos: string[],
+  timestampCache: FingerprintCache<any>
+): Promise<RecordingFolder | null> {
+  const times = await loadVideoTimes(videos, timestampCache);
+  const ocrDate = videos.map(video => times.get(video)?.date).find(Boolean);
+  const date = ocrDate || parsed?.date;
+  if (!date) {
+    return null;
+  }
+
+  // The time in the name is only trusted when the name's date is the true date
+  const time = parsed?.date === date ? parsed.time : undefined;
+
+  return {
+    folder,
+    folderPath,
+    date,
+    ...(time ? { time } : {}),
+    videos,
+    videoTimes: Object.fromEntries(times)
+  };
+}
+
+/**
+ * Scan one entry of a recording root: a recorder output folder or a loose video file
+ * Returns null when the entry is not a recording (no date, hidden, not a video, gone)
+ */
+export async function scanEntry(
+  root: string,
+  entry: string,
+  config: RecordingsConfig,
+  timestampCache: FingerprintCache<any> = readTimestampCache()
+): Promise<RecordingFolder | null> {
+  const fullPath = join(root, entry);
+  const isFile = isVideoFile(entry, config.extensions);
+
+  // Loose files are matched on their name without extension
+  if (isFile && !config.looseFiles) {
+    return null;
+  }
+  if (entry.startsWith('.')) {
+    return null;
+  }
+  const parsed = parseRecordingName(isFile ? basename(entry, extname(entry)) : entry, config.folderPatterns);
+
+  const stats = await stat(fullPath).catch(() => null);
+  if (!stats) {
+    return null;
+  }
+
+  if (stats.isDirectory()) {
+    const files = await readdir(fullPath).catch(() => [] as string[]);
+    const videos = files.filter(f => isVideoFile(f, config.extensions)).map(f => join(fullPath, f));
+    return createRecording(entry, fullPath, parsed, videos, timestampCache);
+  }
+  if (isFile && stats.isFile()) {
+    return createRecording(entry, root, parsed, [fullPath], timestampCache);
+  }
+  return null;
+}
+
+/**
+ * Scan all configured recording roots
+ * Only recordings whose date is in `dates` are returned when it is given
+ * Entries whose name has no date are still picked up when their videos have OCR timestamps
+ */
+export async function scanRecordings(config: RecordingsConfig, dates?: Set<string>): Promise<RecordingFolder[]> {
+  const recordings: RecordingFolder[] = [];
+  const timestampCache = readTimestampCache();
+
+  for (const root of config.roots) {
+    let entries: string[];
+    try {
+      entries = await readdir(root);
+    } catch (error: any) {
+      console.warn(`⚠️  Skipping recording root ${root}: ${error.code || error.message}`);
+      continue;
+    }
+
+    for (const entry of entries) {
+      const recording = await scanEntry(root, entry, config, timestampCache);
+      if (recording && (!dates || dates.has(recording.date))) {
+        recordings.push(recording);
+      }
+    }
+  }
+
+  return recordings;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { diffSchedules } from './schedule-diff';
+import type { LessonTime } from './schedule-provider';
+
+const WINDOW = { from: '2025-10-13', to: '2025-10-26' };
+
+function lesson(date: string, start: string, subject = 'Programming', studentGroups = ['TAK24']): LessonTime {
+  const [hours, minutes] = start.split(':').map(Number);
+  const end = `${String(hours + 1).padStart(2, '0')}:${String(minutes + 30).padStart(2, '0')}`;
+  return { date, start, end, studentGroups, subject };
+}
+
+describe('diffSchedules', () => {
+  test('unchanged schedules have no changes, whatever the group order', () => {
+    const previous = [lesson('2025-10-14', '08:15', 'Databases', ['TAK24', 'TAK25'])];
+    const current = [lesson('2025-10-14', '08:15', 'Databases', ['TAK25', 'TAK24'])];
+    expect(diffSchedules(previous, WINDOW, current, WINDOW)).toEqual([]);
+  });
+
+  test('added and removed lessons', () => {
+    const previous = [lesson('2025-10-14', '08:15'), lesson('2025-10-15', '08:15', 'Databases')];
+    const current = [lesson('2025-10-14', '08:15'), lesson('2025-10-16', '12:00', 'Networks')];
+    expect(diffSchedules(previous, WINDOW, current, WINDOW)).toEqual([
+      { type: 'removed', lesson: previous[1] },
+      { type: 'added', lesson: current[1] }
+    ]);
+  });
+
+  test('the same course within a week is moved, to the closest date', () => {
+    const previous = [lesson('2025-10-14', '08:15')];
+    const current = [lesson('2025-10-20', '10:00'), lesson('2025-10-16', '12:00')];
+    expect(diffSchedules(previous, WINDOW, current, WINDOW)).toEqual([
+      { type: 'moved', from: previous[0], to: current[1] },
+      { type: 'added', lesson: current[0] }
+    ]);
+  });
+
+  test('the same course more than a week away is removed and added', () => {
+    const previous = [lesson('2025-10-13', '08:15')];
+    const current = [lesson('2025-10-21', '08:15')];
+    expect(diffSchedules(previous, WINDOW, current, WINDOW).map(change => change.type)).toEqual(['removed', 'added']);
+  });
+
+  test('lessons outside the dates both windows cover are ignored', () => {
+    const previous = [lesson('2025-10-13', '08:15'), lesson('2025-10-20', '08:15')];
+    const current = [lesson('2025-10-20', '08:15'), lesson('2025-10-28', '08:15')];
+    expect(diffSchedules(previous, WINDOW, current, { from: '2025-10-20', to: '2025-11-02' })).toEqual([]);
+  });
+
+  test('windows that do not overlap have no changes', () => {
+    expect(diffSchedules([lesson('2025-10-14', '08:15')], WINDOW, [], { from: '2025-11-01', to: '2025-11-14' })).toEqual([]);
+  });
+});
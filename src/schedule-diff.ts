@@ -0,0 +1,107 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import type { DateWindow } from './config';
+import type { LessonTime } from './schedule-provider';
+
+const SCHEDULE_CHANGES_PATH = 'data/schedule-changes.json';
+const MAX_HISTORY_ENTRIES = 100;
+const MAX_MOVE_DAYS = 7; // A lesson reappearing further away counts as removed + added
+
+export type ScheduleChange =
+  | { type: 'added'; lesson: LessonTime }
+  | { type: 'removed'; lesson: LessonTime }
+  | { type: 'moved'; from: LessonTime; to: LessonTime };
+
+// One fetch that found changes
+export interface ScheduleChangeEntry {
+  detectedAt: string;
+  provider: string;
+  changes: ScheduleChange[];
+}
+
+// data/schedule-changes.json
+export interface ScheduleChangeLog {
+  lastWindow?: DateWindow;   // Date window of the snapshot in data/times.json
+  history: ScheduleChangeEntry[];  // Newest first
+}
+
+/**
+ * Load the change history (empty before the first fetch)
+ */
+export function loadScheduleChangeLog(): ScheduleChangeLog {
+  if (!existsSync(SCHEDULE_CHANGES_PATH)) {
+    return { history: [] };
+  }
+  try {
+    const log = JSON.parse(readFileSync(SCHEDULE_CHANGES_PATH, 'utf-8'));
+    return { lastWindow: log.lastWindow, history: log.history || [] };
+  } catch (error) {
+    return { history: [] };
+  }
+}
+
+export function saveScheduleChangeLog(log: ScheduleChangeLog) {
+  log.history = log.history.slice(0, MAX_HISTORY_ENTRIES);
+  writeFileSync(SCHEDULE_CHANGES_PATH, JSON.stringify(log, null, 2));
+}
+
+// Same groups (order-independent) and subject: the same course, possibly at another time
+function courseKey(lesson: LessonTime): string {
+  return `${[...lesson.studentGroups].sort().join(',')}|${lesson.subject || ''}`;
+}
+
+function lessonKey(lesson: LessonTime): string {
+  return `${lesson.date}|${lesson.start}|${lesson.end}|${courseKey(lesson)}`;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime()) / 86400000;
+}
+
+function minutesBetween(a: string, b: string): number {
+  const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+  return Math.abs(toMinutes(a) - toMinutes(b));
+}
+
+/**
+ * Compare two schedule snapshots within the dates both of them cover
+ * Lessons outside the overlap are ignored, so a sliding date window is not reported as changes
+ * A removed lesson paired with an added lesson of the same course within a week is reported as moved
+ */
+export function diffSchedules(
+  previous: LessonTime[],
+  previousWindow: DateWindow,
+  current: LessonTime[],
+  currentWindow: DateWindow
+): ScheduleChange[] {
+  const from = previousWindow.from > currentWindow.from ? previousWindow.from : currentWindow.from;
+  const to = previousWindow.to < currentWindow.to ? previousWindow.to : currentWindow.to;
+  if (from > to) {
+    return [];
+  }
+  const inOverlap = (lesson: LessonTime) => lesson.date >= from && lesson.date <= to;
+
+  const previousKeys = new Set(previous.filter(inOverlap).map(lessonKey));
+  const currentKeys = new Set(current.filter(inOverlap).map(lessonKey));
+  const removed = previous.filter(l => inOverlap(l) && !currentKeys.has(lessonKey(l)));
+  const added = current.filter(l => inOverlap(l) && !previousKeys.has(lessonKey(l)));
+
+  const changes: ScheduleChange[] = [];
+  for (const lesson of removed) {
+    // Closest added lesson of the same course (by date, then start time)
+    const candidates = added
+      .filter(a => courseKey(a) === courseKey(lesson) && daysBetween(a.date, lesson.date) <= MAX_MOVE_DAYS)
+      .sort((a, b) => daysBetween(a.date, lesson.date) - daysBetween(b.date, lesson.date) ||
+        minutesBetween(a.start, lesson.start) - minutesBetween(b.start, lesson.start));
+
+    if (candidates.length > 0) {
+      added.splice(added.indexOf(candidates[0]), 1);
+      changes.push({ type: 'moved', from: lesson, to: candidates[0] });
+    } else {
+      changes.push({ type: 'removed', lesson });
+    }
+  }
+  added.forEach(lesson => changes.push({ type: 'added', lesson }));
+
+  const sortDate = (change: ScheduleChange) => change.type === 'moved' ? change.from.date : change.lesson.date;
+  return changes.sort((a, b) => sortDate(a).localeCompare(sortDate(b)));
+}
@@ -0,0 +1,52 @@
+import type { DateWindow, ScheduleConfig, SchoolWideEventsConfig } from './config';
+import { TahvelProvider } from './tahvel-provider';
+import { IcsProvider } from './ics-provider';
+
+/**
+ * One scheduled lesson, attended by one or more student groups
+ * This is the record format written to data/times.json
+ */
+export interface LessonTime {
+  date: string;             // YYYY-MM-DD
+  start: string;            // HH:MM (local time)
+  end: string;              // HH:MM (local time)
+  studentGroups: string[];  // All participating groups (joint lectures have several)
+  subject?: string;      // Subject / journal name
+  room?: string;
+}
+
+/**
+ * A source of lesson schedules (Tahvel, calendar export, ...)
+ */
+export interface ScheduleProvider {
+  readonly name: string;
+  fetchLessons(dateWindow: DateWindow): Promise<LessonTime[]>;
+}
+
+/**
+ * Create the schedule provider selected in config/schedule.json
+ */
+export function createScheduleProvider(config: ScheduleConfig): ScheduleProvider {
+  switch (config.provider) {
+    case 'tahvel':
+      return new TahvelProvider(config.tahvel!);
+    case 'ics':
+      return new IcsProvider(config.ics!);
+  }
+}
+
+/**
+ * Drop school-wide events (assemblies, meetings) that are attended by many groups
+ * Subjects on the allow-list are kept regardless of the number of groups
+ */
+export function filterSchoolWideEvents(lessons: LessonTime[], rules: SchoolWideEventsConfig): LessonTime[] {
+  const allowed = rules.allowSubjects.map(subject => subject.toLowerCase());
+
+  return lessons.filter(lesson => {
+    if (lesson.studentGroups.length < rules.minGroups) {
+      return true;
+    }
+    const subject = (lesson.subject || '').toLowerCase();
+    return allowed.some(allowedSubject => subject.includes(allowedSubject));
+  });
+}
@@ -0,0 +1,71 @@
+import type { SilenceTrimConfig } from './config';
+
+// A span of the video in seconds
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Read the silences reported by ffmpeg's silencedetect filter
+ * ("silence_start: 12.5" ... "silence_end: 15.75 | silence_duration: 3.25")
+ * A silence still open when the video ends lasts until `duration`
+ */
+export function parseSilenceDetectOutput(output: string, duration: number): TimeRange[] {
+  const silences: TimeRange[] = [];
+  let openStart: number | null = null;
+
+  for (const line of output.split('\n')) {
+    const start = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (start) {
+      openStart = Math.max(0, parseFloat(start[1]));
+      continue;
+    }
+    const end = line.match(/silence_end:\s*([\d.]+)/);
+    if (end && openStart !== null) {
+      silences.push({ start: openStart, end: parseFloat(end[1]) });
+      openStart = null;
+    }
+  }
+  if (openStart !== null && openStart < duration) {
+    silences.push({ start: openStart, end: duration });
+  }
+
+  return silences;
+}
+
+/**
+ * Turn silences into the parts of the video to keep
+ * Every silence is shortened by the padding on both sides; silences at the very start and end are cut completely
+ */
+export function buildKeepSegments(silences: TimeRange[], duration: number, settings: SilenceTrimConfig): TimeRange[] {
+  const segments: TimeRange[] = [];
+  let position = 0;
+
+  for (const silence of silences) {
+    if (silence.end - silence.start < settings.minSilenceSeconds) {
+      continue;
+    }
+    const cutStart = silence.start <= 0 ? 0 : silence.start + settings.paddingSeconds;
+    const cutEnd = silence.end >= duration ? duration : silence.end - settings.paddingSeconds;
+    if (cutEnd <= cutStart) {
+      continue;
+    }
+    if (cutStart > position) {
+      segments.push({ start: position, end: cutStart });
+    }
+    position = Math.max(position, cutEnd);
+  }
+  if (position < duration) {
+    segments.push({ start: position, end: duration });
+  }
+
+  return segments;
+}
+
+/**
+ * ffmpeg expression that is true inside the kept segments, for the select/aselect filters
+ */
+export function buildSelectExpression(segments: TimeRange[]): string {
+  return segments.map(s => `between(t,${s.start.toFixed(3)},${s.end.toFixed(3)})`).join('+');
+}
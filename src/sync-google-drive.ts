@@ -9,6 +9,7 @@ const SCOPES = ['https://www.googleapis.com/auth/drive'];
 const TOKEN_PATH = 'config/token.json';
 const CREDENTIALS_PATH = 'config/credentials.json';
 const STUDY_GROUPS_PATH = 'config/study-groups.json';
+const SHORTCUT_MIME_TYPE = 'application/vnd.google-apps.shortcut';
 
 /**
  * Load study groups configuration
@@ -86,13 +87,31 @@ async function listFilesInFolder(auth: any, folderId: string) {
 
   const res = await drive.files.list({
     q: `'${folderId}' in parents and trashed=false`,
-    fields: 'files(id, name, mimeType, size)',
+    fields: 'files(id, name, mimeType, size, shortcutDetails(targetId, targetMimeType))',
     pageSize: 1000,
   });
 
   return res.data.files || [];
 }
 
+/**
+ * Get size of a shortcut's target file
+ * Returns null when the target was deleted or trashed (broken shortcut)
+ */
+async function getShortcutTargetSize(auth: any, targetId: string): Promise<number | null> {
+  const drive = google.drive({ version: 'v3', auth });
+
+  try {
+    const res = await drive.files.get({ fileId: targetId, fields: 'size, trashed' });
+    if (res.data.trashed) {
+      return null;
+    }
+    return res.data.size ? parseInt(res.data.size) : 0;
+  } catch (error) {
+    return null;
+  }
+}
+
 /**
  * Extract date from filename (format: YYYY-MM-DD)
  */
@@ -111,7 +130,7 @@ async function main() {
     const auth = await authorize();
     const FOLDERS = loadStudyGroups();
     const uploadedDates: { [key: string]: string[] } = {};
-    const driveFiles: { [key: string]: Array<{ id: string, name: string, url: string, size: number }> } = {};
+    const driveFiles: { [key: string]: Array<{ id: string, name: string, url: string, size: number, shortcut?: boolean }> } = {};
 
     for (const [group, folderId] of Object.entries(FOLDERS)) {
       console.log(`\n📂 Checking ${group} folder...`);
@@ -119,9 +138,32 @@ async function main() {
       const files = await listFilesInFolder(auth, folderId);
       const dates = new Set<string>();
 
-      files.forEach((file) => {
+      for (const file of files) {
         const date = extractDateFromFilename(file.name || '');
-        if (date && file.id) {
+
+        // Shortcuts to a recording uploaded for another group (joint lessons) count as uploaded
+        if (date && file.id && file.mimeType === SHORTCUT_MIME_TYPE) {
+          const targetId = file.shortcutDetails?.targetId;
+          const size = targetId ? await getShortcutTargetSize(auth, targetId) : null;
+          if (!targetId || size === null) {
+            console.log(`  ⚠️  Skipping broken shortcut: ${file.name}`);
+            continue;
+          }
+
+          dates.add(date);
+          const key = `${group}:${date}`;
+          if (!driveFiles[key]) {
+            driveFiles[key] = [];
+          }
+          driveFiles[key].push({
+            id: file.id,
+            name: file.name || '',
+            url: `https://drive.google.com/file/d/${targetId}/view`,
+            size,
+            shortcut: true
+          });
+          console.log(`  🔗 Found shortcut: ${file.name} (${date})`);
+        } else if (date && file.id) {
           dates.add(date);
           // Store file info with Drive URL (key: "group:date", value: array of files)
           const key = `${group}:${date}`;
@@ -136,7 +178,7 @@ async function main() {
           });
           console.log(`  ✓ Found: ${file.name} (${date})`);
         }
-      });
+      }
 
       uploadedDates[group] = Array.from(dates).sort();
       console.log(`  📊 Total uploaded dates for ${group}: ${dates.size}`);
@@ -0,0 +1,114 @@
+import type { DateWindow, TahvelConfig } from './config';
+import type { LessonTime, ScheduleProvider } from './schedule-provider';
+import { fetchWithRetry } from './http';
+
+const TAHVEL_API_URL = 'https://tahveltp.edu.ee/hois_back/timetableevents/timetableSearch';
+const PAGE_SIZE = 500;
+const MAX_PAGES = 200; // Safety limit in case the API never reports the last page
+
+interface LessonEvent {
+  date: string;
+  timeStart: string;
+  timeEnd: string;
+  nameEt?: string;   // Journal or event name
+  nameEn?: string;
+  rooms?: { roomCode?: string; buildingCode?: string }[];
+  studentGroups: { code: string }[];
+}
+
+// Paged response (Spring Data page)
+interface ApiResponse {
+  content: LessonEvent[];
+  totalElements?: number;
+  totalPages?: number;
+  last?: boolean;
+}
+
+/**
+ * Schedule provider for the Tahvel timetable search API
+ */
+export class TahvelProvider implements ScheduleProvider {
+  readonly name = 'Tahvel';
+
+  constructor(private config: TahvelConfig) {}
+
+  // Subject name in the configured language, falling back to Estonian
+  private getSubject(lesson: LessonEvent): string | undefined {
+    const name = this.config.lang === 'EN' ? (lesson.nameEn || lesson.nameEt) : lesson.nameEt;
+    return name?.trim() || undefined;
+  }
+
+  // Room codes, prefixed with building code when present (e.g. "A-201")
+  private getRoom(lesson: LessonEvent): string | undefined {
+    const rooms = (lesson.rooms || [])
+      .filter(room => room.roomCode)
+      .map(room => room.buildingCode ? `${room.buildingCode}-${room.roomCode}` : room.roomCode!);
+    return rooms.length > 0 ? rooms.join(', ') : undefined;
+  }
+
+  // Build Tahvel timetable search URL from config and date window
+  private buildApiUrl(dateWindow: DateWindow, page: number): string {
+    const params = new URLSearchParams({
+      from: `${dateWindow.from}T00:00:00.000Z`,
+      lang: this.config.lang,
+      page: String(page),
+      schoolId: String(this.config.schoolId),
+      size: String(PAGE_SIZE),
+      thru: `${dateWindow.to}T23:59:59.999Z`
+    });
+    this.config.teacherIds.forEach(id => params.append('teachers', id));
+    return `${TAHVEL_API_URL}?${params}`;
+  }
+
+  async fetchLessons(dateWindow: DateWindow): Promise<LessonTime[]> {
+    console.log(`Fetching lessons for ${this.config.teacherIds.length} teacher(s) from Tahvel`);
+
+    // Walk all pages until the API reports the last one
+    const events: LessonEvent[] = [];
+    let totalElements: number | undefined;
+    let pagesFetched = 0;
+    let reachedLastPage = false;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const response = await fetchWithRetry(this.buildApiUrl(dateWindow, page));
+      const data = await response.json() as ApiResponse;
+      const content = data.content || [];
+
+      events.push(...content);
+      pagesFetched++;
+      totalElements = data.totalElements ?? totalElements;
+
+      // The API may return fewer events per page than requested, so a short page is not taken as the last one;
+      // an empty page ends the walk only when the API reports neither flag
+      const isLastPage = data.last === true ||
+        (data.totalPages !== undefined && page + 1 >= data.totalPages) ||
+        (data.last === undefined && data.totalPages === undefined && content.length === 0);
+      if (isLastPage) {
+        reachedLastPage = true;
+        break;
+      }
+    }
+    if (!reachedLastPage) {
+      console.warn(`⚠️  Stopped after ${MAX_PAGES} pages without reaching the last one - later events are missing`);
+    }
+
+    console.log(`Fetched ${events.length} timetable events from ${pagesFetched} page(s)` +
+      (totalElements !== undefined ? ` (API reported ${totalElements} total)` : ''));
+    if (totalElements !== undefined && totalElements !== events.length) {
+      console.warn(`⚠️  Expected ${totalElements} events but received ${events.length} - the timetable may have changed during fetching`);
+    }
+
+    // Filter out entries with empty studentGroups array (not actual lessons)
+    // School-wide events are filtered by the caller using config rules
+    return events
+      .filter(lesson => lesson.studentGroups && lesson.studentGroups.length > 0)
+      .map(lesson => ({
+        date: lesson.date.split('T')[0],
+        start: lesson.timeStart,
+        end: lesson.timeEnd,
+        studentGroups: [...new Set<string>(lesson.studentGroups.map(group => group.code).filter(Boolean))],
+        subject: this.getSubject(lesson),
+        room: this.getRoom(lesson)
+      }));
+  }
+}
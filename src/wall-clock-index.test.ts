@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { secondsToClock } from './lesson-trim';
+import { buildWallClockIndex, type WallClockSample } from './wall-clock-index';
+
+const START = 8 * 3600;
+
+// One sample a minute; `offsetAt` gives the seconds the clock is ahead of START at each position
+function samples(durationSeconds: number, offsetAt: (videoSeconds: number) => number): WallClockSample[] {
+  const result: WallClockSample[] = [];
+  for (let videoSeconds = 0; videoSeconds < durationSeconds; videoSeconds += 60) {
+    result.push({ videoSeconds, clock: secondsToClock(START + offsetAt(videoSeconds) + videoSeconds) });
+  }
+  return result;
+}
+
+describe('buildWallClockIndex', () => {
+  test('an uncut recording is one segment from the first to the last frame', () => {
+    const index = buildWallClockIndex(samples(600, () => 0), 60, 630);
+    expect(index.segments).toEqual([{ videoStart: 0, videoEnd: 630, clockStart: '08:00:00', clockEnd: '08:10:30' }]);
+    expect(index).toMatchObject({ gaps: [], coveredStart: '08:00:00', coveredEnd: '08:10:30', missingSeconds: 0, unreadSamples: 0 });
+  });
+
+  test('a short jump is a cut and a long one a break', () => {
+    const index = buildWallClockIndex(samples(900, t => (t <= 300 ? 0 : t <= 600 ? 120 : 720)), 60, 900);
+    expect(index.segments).toEqual([
+      { videoStart: 0, videoEnd: 300, clockStart: '08:00:00', clockEnd: '08:05:00' },
+      { videoStart: 360, videoEnd: 600, clockStart: '08:08:00', clockEnd: '08:12:00' },
+      { videoStart: 660, videoEnd: 900, clockStart: '08:23:00', clockEnd: '08:27:00' }
+    ]);
+    expect(index.gaps).toEqual([
+      { videoSeconds: 300, fromClock: '08:05:00', toClock: '08:08:00', missingSeconds: 120, kind: 'cut' },
+      { videoSeconds: 600, fromClock: '08:12:00', toClock: '08:23:00', missingSeconds: 600, kind: 'break' }
+    ]);
+    expect(index.missingSeconds).toBe(720);
+  });
+
+  test('a misread sample and unread samples are ignored', () => {
+    const read = samples(600, () => 0);
+    read[3] = { videoSeconds: 180, clock: '09:03:00' };
+    read[5] = { videoSeconds: 300, clock: null };
+    const index = buildWallClockIndex(read, 60, 600);
+    expect(index.segments).toHaveLength(1);
+    expect(index.gaps).toEqual([]);
+    expect(index.unreadSamples).toBe(1);
+  });
+
+  test('a clock running backwards starts a new segment without a gap', () => {
+    const index = buildWallClockIndex(samples(600, t => (t < 300 ? 3600 : 0)), 60, 600);
+    expect(index.segments.map(segment => [segment.clockStart, segment.clockEnd])).toEqual([
+      ['09:00:00', '09:04:00'],
+      ['08:05:00', '08:10:00']
+    ]);
+    expect(index.gaps).toEqual([]);
+  });
+
+  test('no readable samples gives an empty index', () => {
+    const index = buildWallClockIndex([{ videoSeconds: 0, clock: null }], 60, 60);
+    expect(index).toMatchObject({ segments: [], coveredStart: null, coveredEnd: null, unreadSamples: 1 });
+  });
+});
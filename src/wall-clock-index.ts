@@ -0,0 +1,125 @@
+import { clockToSeconds, secondsToClock } from './lesson-trim';
+
+const CLOCK_TOLERANCE_SECONDS = 5;    // Seek and OCR jitter between the video position and the clock it shows
+const BREAK_MIN_SECONDS = 5 * 60;     // A shorter gap is a cut silence, a longer one a break or a paused recording
+
+/**
+ * The clock read from the video at one position (null when OCR could not read it)
+ */
+export interface WallClockSample {
+  videoSeconds: number;
+  clock: string | null;     // HH:MM:SS
+}
+
+/**
+ * A stretch of the video during which the clock runs in step with playback
+ */
+export interface WallClockSegment {
+  videoStart: number;       // Seconds from the start of the video
+  videoEnd: number;
+  clockStart: string;       // HH:MM:SS
+  clockEnd: string;
+}
+
+/**
+ * Real time missing from the video between two segments
+ * The gap lies somewhere between the last clock read before it and the first clock read after it
+ */
+export interface WallClockGap {
+  videoSeconds: number;     // Position of the last sample before the gap
+  fromClock: string;
+  toClock: string;
+  missingSeconds: number;
+  kind: 'cut' | 'break';
+}
+
+/**
+ * Video time to wall-clock time map of a whole video, with what it tells about the recording
+ */
+export interface WallClockIndex {
+  intervalSeconds: number;
+  builtAt: string;
+  samples: WallClockSample[];
+  segments: WallClockSegment[];
+  gaps: WallClockGap[];
+  coveredStart: string | null;   // Wall-clock time of the first and last frame
+  coveredEnd: string | null;
+  missingSeconds: number;        // Real time cut out of or not recorded in the video, in total
+  unreadSamples: number;
+}
+
+// The index without its samples, small enough to send with the video metadata
+export type WallClockSummary = Omit<WallClockIndex, 'samples'>;
+
+/**
+ * Build the index from samples taken every `intervalSeconds`
+ * A sample disagreeing with both neighbours while they agree with each other is taken as an OCR misread and ignored.
+ * A clock that jumps backwards (parts joined out of order) starts a new segment without a gap.
+ */
+export function buildWallClockIndex(samples: WallClockSample[], intervalSeconds: number, durationSeconds: number): WallClockIndex {
+  const read = samples
+    .filter(sample => sample.clock !== null)
+    .sort((a, b) => a.videoSeconds - b.videoSeconds)
+    .map(sample => ({ ...sample, offset: clockToSeconds(sample.clock!) - sample.videoSeconds }));
+
+  const consistent = read.filter((sample, i) => {
+    const previous = read[i - 1];
+    const next = read[i + 1];
+    if (!previous || !next) {
+      return true;
+    }
+    const agrees = (a: number, b: number) => Math.abs(a - b) <= CLOCK_TOLERANCE_SECONDS;
+    return agrees(sample.offset, previous.offset) || agrees(sample.offset, next.offset) || !agrees(previous.offset, next.offset);
+  });
+
+  const segments: WallClockSegment[] = [];
+  const gaps: WallClockGap[] = [];
+  let segmentStart = 0;
+
+  consistent.forEach((sample, i) => {
+    const next = consistent[i + 1];
+    const jump = next ? next.offset - sample.offset : 0;
+    if (next && Math.abs(jump) <= CLOCK_TOLERANCE_SECONDS) {
+      return;
+    }
+
+    // First and last segments reach the ends of the video, which are between samples
+    const first = consistent[segmentStart];
+    const videoStart = segmentStart === 0 ? 0 : first.videoSeconds;
+    const videoEnd = next ? sample.videoSeconds : durationSeconds;
+    segments.push({
+      videoStart,
+      videoEnd,
+      clockStart: secondsToClock(first.offset + videoStart),
+      clockEnd: secondsToClock(sample.offset + videoEnd)
+    });
+
+    if (next && jump > 0) {
+      gaps.push({
+        videoSeconds: sample.videoSeconds,
+        fromClock: sample.clock!,
+        toClock: next.clock!,
+        missingSeconds: jump,
+        kind: jump >= BREAK_MIN_SECONDS ? 'break' : 'cut'
+      });
+    }
+    segmentStart = i + 1;
+  });
+
+  return {
+    intervalSeconds,
+    builtAt: new Date().toISOString(),
+    samples,
+    segments,
+    gaps,
+    coveredStart: segments[0]?.clockStart ?? null,
+    coveredEnd: segments[segments.length - 1]?.clockEnd ?? null,
+    missingSeconds: gaps.reduce((total, gap) => total + gap.missingSeconds, 0),
+    unreadSamples: samples.length - read.length
+  };
+}
+
+export function summarizeWallClockIndex(index: WallClockIndex): WallClockSummary {
+  const { samples, ...summary } = index;
+  return summary;
+}